@@ -1,7 +1,12 @@
 import { useEffect } from "react";
 import { Link, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import {
   Sidebar,
   SidebarContent,
@@ -24,6 +29,8 @@ import {
   LogOut,
   Loader2,
   Brain,
+  Bell,
+  Check,
 } from "lucide-react";
 import Dashboard from "@/pages/dashboard";
 import AdEngine from "@/pages/ad-engine";
@@ -33,6 +40,7 @@ import Research from "@/pages/research";
 import KnowledgeBase from "@/pages/knowledge-base";
 import SettingsPage from "@/pages/settings";
 import IntelligenceCorePage from "@/pages/intelligence-core";
+import type { PerformanceAlert } from "@shared/schema";
 import vasLogo from "@/assets/images/vas-logo.png";
 
 const navItems = [
@@ -61,6 +69,105 @@ interface AppShellProps {
   page: string;
 }
 
+const OPEN_ALERTS_KEY = "/api/alerts?acknowledged=false";
+
+const severityBadgeColor: Record<string, string> = {
+  info: "bg-blue-600/20 text-blue-400",
+  warning: "bg-yellow-600/20 text-yellow-400",
+  critical: "bg-red-600/20 text-red-400",
+};
+
+function AlertsInbox() {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<{ alerts: PerformanceAlert[] }>({
+    queryKey: [OPEN_ALERTS_KEY],
+    refetchInterval: 60000,
+    staleTime: 30000,
+  });
+  const alerts = data?.alerts || [];
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("PUT", `/api/alerts/${id}/acknowledge`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [OPEN_ALERTS_KEY] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Acknowledge failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-alerts">
+          <Bell className="h-5 w-5" />
+          {alerts.length > 0 && (
+            <span
+              className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white font-mono text-[10px] flex items-center justify-center"
+              data-testid="badge-alert-count"
+            >
+              {alerts.length > 99 ? "99+" : alerts.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0" data-testid="popover-alerts">
+        <div className="px-4 py-3 border-b border-border">
+          <h3 className="font-mono text-sm font-bold uppercase tracking-wider">Alerts</h3>
+        </div>
+        {isLoading ? (
+          <div className="p-6 flex justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : alerts.length === 0 ? (
+          <p className="p-6 text-center text-muted-foreground font-mono text-xs" data-testid="text-no-alerts">
+            No open alerts.
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y divide-border">
+            {alerts.map((alert) => (
+              <div key={alert.id} className="px-4 py-3 space-y-2" data-testid={`alert-${alert.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant="secondary"
+                      className={`font-mono text-xs uppercase ${severityBadgeColor[alert.severity || "warning"] || ""}`}
+                    >
+                      {alert.severity || "warning"}
+                    </Badge>
+                    <span className="font-mono text-xs uppercase text-muted-foreground">
+                      {alert.alertType.replace(/_/g, " ")}
+                    </span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => acknowledgeMutation.mutate(alert.id)}
+                    disabled={acknowledgeMutation.isPending}
+                    data-testid={`button-acknowledge-${alert.id}`}
+                  >
+                    <Check className="mr-1 h-3 w-3" />
+                    <span className="font-mono text-xs uppercase">Ack</span>
+                  </Button>
+                </div>
+                <p className="text-sm">{alert.message}</p>
+                <p className="font-mono text-xs text-muted-foreground">
+                  {alert.lastSeenAt ? new Date(alert.lastSeenAt).toLocaleString() : ""}
+                  {(alert.occurrences ?? 1) > 1 ? ` · seen ${alert.occurrences}x` : ""}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 export default function AppShell({ page }: AppShellProps) {
   const { user, isLoading, logout } = useAuth();
   const [, setLocation] = useLocation();
@@ -170,6 +277,9 @@ export default function AppShell({ page }: AppShellProps) {
             <h1 className="font-mono text-xl font-bold uppercase tracking-wide" data-testid="text-page-title">
               {pageTitles[page] || page.toUpperCase()}
             </h1>
+            <div className="ml-auto">
+              <AlertsInbox />
+            </div>
           </header>
           <main className="flex-1 overflow-auto p-6" data-testid="main-content">
             <div data-testid={`page-${page}`}>
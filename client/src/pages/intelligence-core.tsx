@@ -65,10 +65,19 @@ interface TrainingResult {
   testSampleCount: number;
 }
 
+interface PredictionInterval {
+  lower: number;
+  upper: number;
+  level: number;
+  standardError: number;
+  tierProbabilities: Record<string, number>;
+}
+
 interface PredictionResult {
   predictedValue: number;
   predictedTier: string;
   confidence: number;
+  interval: PredictionInterval | null;
   snapshotId: string;
 }
 
@@ -559,6 +568,41 @@ function PredictionsTab() {
               </p>
             </div>
           </div>
+
+          {predictionResult.interval ? (
+            <div className="mt-5 pt-4 border-t border-steel-border grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <span className="text-chrome-muted font-mono text-xs block mb-1">
+                  {(predictionResult.interval.level * 100).toFixed(0)}% Prediction Interval
+                </span>
+                <p className="text-lg font-mono text-chrome-text" data-testid="text-prediction-interval">
+                  [{predictionResult.interval.lower.toFixed(4)}, {predictionResult.interval.upper.toFixed(4)}]
+                </p>
+                <p className="font-mono text-xs text-chrome-dim" data-testid="text-standard-error">
+                  ± {predictionResult.interval.standardError.toFixed(4)} std. error
+                </p>
+              </div>
+              <div className="space-y-2" data-testid="section-tier-probabilities">
+                <span className="text-chrome-muted font-mono text-xs block">Tier Probabilities</span>
+                {["top", "mid", "low"].map((tier) => {
+                  const probability = predictionResult.interval?.tierProbabilities[tier] ?? 0;
+                  return (
+                    <div key={tier} className="flex items-center gap-3">
+                      <span className="font-mono text-xs text-chrome-dim w-8 uppercase">{tier}</span>
+                      <Progress value={probability * 100} className="flex-1" />
+                      <span className="font-mono text-xs text-chrome-text w-14 text-right" data-testid={`text-tier-probability-${tier}`}>
+                        {(probability * 100).toFixed(1)}%
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ) : (
+            <p className="mt-4 font-mono text-xs text-chrome-dim" data-testid="text-no-interval">
+              This model was trained before prediction intervals were recorded. Retrain to see per-prediction uncertainty.
+            </p>
+          )}
         </div>
       )}
 
@@ -583,7 +627,7 @@ function AMITrackerTab() {
 
   const amiMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("GET", `/api/intelligence/ami/${encodeURIComponent(keyword)}`);
+      const res = await apiRequest("POST", `/api/intelligence/ami/${encodeURIComponent(keyword)}/track`);
       return res.json();
     },
     onSuccess: (data: AMIResult) => {
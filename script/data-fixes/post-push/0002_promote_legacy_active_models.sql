@@ -0,0 +1,25 @@
+-- After the push adds pattern_models.promoted_at. Models trained
+-- before the registry carry the old 'active' status, which no longer serves
+-- predictions: the newest one per dataset without a champion becomes champion
+-- and every other legacy model is archived. Each keeps its training time as
+-- promoted_at, since it served predictions until the next one was trained,
+-- which also makes it a rollback target.
+UPDATE pattern_models m
+SET status = CASE WHEN m.id = newest.id THEN 'champion' ELSE 'archived' END,
+    promoted_at = coalesce(m.promoted_at, m.trained_at, m.created_at, now())
+FROM (
+  SELECT DISTINCT ON (dataset_id) dataset_id, id
+  FROM pattern_models legacy
+  WHERE status = 'active'
+    AND NOT EXISTS (
+      SELECT 1 FROM pattern_models c
+      WHERE c.dataset_id = legacy.dataset_id AND c.status = 'champion'
+    )
+  ORDER BY dataset_id, version DESC NULLS LAST, trained_at DESC NULLS LAST, created_at DESC NULLS LAST
+) newest
+WHERE m.status = 'active' AND m.dataset_id = newest.dataset_id;
+
+UPDATE pattern_models
+SET status = 'archived',
+    promoted_at = coalesce(promoted_at, trained_at, created_at, now())
+WHERE status = 'active';
@@ -0,0 +1,20 @@
+-- After the push adds model_snapshots.lifecycle_state/validated_at
+-- and prediction_logs.checkpoint. Snapshots from before the lifecycle got the
+-- 'locked' column default; derive their real state from the flags they
+-- recorded and from their final (7d or legacy unlabelled) prediction log.
+UPDATE model_snapshots s
+SET lifecycle_state = CASE
+      WHEN s.validated_at IS NOT NULL OR final_log.validated_at IS NOT NULL THEN 'validated'
+      WHEN s.performance_tracking_started THEN 'tracking'
+      WHEN s.upload_confirmed THEN 'upload_confirmed'
+      ELSE 'locked'
+    END,
+    validated_at = coalesce(s.validated_at, final_log.validated_at)
+FROM model_snapshots base
+LEFT JOIN LATERAL (
+  SELECT min(coalesce(l.validated_at, l.created_at, now())) AS validated_at
+  FROM prediction_logs l
+  WHERE l.snapshot_id = base.id AND (l.checkpoint = '7d' OR l.checkpoint IS NULL)
+) final_log ON true
+WHERE s.id = base.id
+  AND (s.lifecycle_state IS NULL OR s.lifecycle_state = 'locked');
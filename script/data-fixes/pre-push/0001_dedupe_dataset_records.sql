@@ -0,0 +1,15 @@
+-- Before the push adds dataset_records_source_idx: keeps the newest record per
+-- (dataset_id, source_type, source_id) and drops the rest. Skipped on a fresh
+-- database, where the push creates the table.
+DO $$
+BEGIN
+  IF to_regclass('dataset_records') IS NOT NULL THEN
+    DELETE FROM dataset_records r
+    USING dataset_records newer
+    WHERE r.source_id IS NOT NULL
+      AND r.dataset_id = newer.dataset_id
+      AND r.source_type = newer.source_type
+      AND r.source_id = newer.source_id
+      AND (coalesce(r.created_at, 'epoch'), r.id) < (coalesce(newer.created_at, 'epoch'), newer.id);
+  END IF;
+END $$;
@@ -0,0 +1,46 @@
+import { spawn } from "child_process";
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import pg from "pg";
+
+// Schema changes go through `drizzle-kit push`; the data fixes some of them
+// need run around it in a fixed order: pre-push fixes make existing rows fit
+// new constraints, post-push fixes backfill the columns the push added. Every
+// fix is idempotent, so the whole sequence is safe to re-run on each deploy.
+const FIXES_DIR = path.resolve(import.meta.dirname, "data-fixes");
+
+async function runFixes(pool: pg.Pool, stage: "pre-push" | "post-push") {
+  const dir = path.join(FIXES_DIR, stage);
+  const files = (await readdir(dir)).filter((file) => file.endsWith(".sql")).sort();
+  for (const file of files) {
+    console.log(`${stage}: ${file}`);
+    await pool.query(await readFile(path.join(dir, file), "utf-8"));
+  }
+}
+
+function pushSchema(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("npx", ["drizzle-kit", "push"], { stdio: "inherit" });
+    child.on("error", reject);
+    child.on("exit", (code) => (code === 0 ? resolve() : reject(new Error(`drizzle-kit push exited with ${code}`))));
+  });
+}
+
+async function migrate() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL, ensure the database is provisioned");
+  }
+  const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+  try {
+    await runFixes(pool, "pre-push");
+    await pushSchema();
+    await runFixes(pool, "post-push");
+  } finally {
+    await pool.end();
+  }
+}
+
+migrate().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
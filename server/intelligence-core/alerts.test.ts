@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import type { PredictionLog } from "@shared/schema";
+import { detectRecentDrift } from "./alerts";
+import { DEFAULT_TIER_THRESHOLDS } from "./model-training";
+
+function log(minutesAgo: number, predictedValue: number, actualValue: number): PredictionLog {
+  return {
+    id: `log-${minutesAgo}`,
+    snapshotId: null,
+    datasetId: "ds",
+    modelId: "model",
+    checkpoint: "7d",
+    predictedValue,
+    predictedTier: null,
+    actualValue,
+    actualTier: null,
+    error: null,
+    absoluteError: null,
+    directionallyCorrect: null,
+    tierCorrect: null,
+    validatedAt: null,
+    createdAt: new Date(Date.UTC(2026, 0, 1) - minutesAgo * 60_000),
+  };
+}
+
+// Newest-first, as checkDrift fetches them: the latest ten overestimate, the ten before were accurate.
+const recentOverestimates = Array.from({ length: 10 }, (_, i) => log(i, 0.6, 0.5));
+const olderAccurate = Array.from({ length: 10 }, (_, i) => log(10 + i, 0.5, 0.55));
+
+describe("detectRecentDrift", () => {
+  it("judges the latest window of newest-first logs", () => {
+    const drift = detectRecentDrift([...recentOverestimates, ...olderAccurate], DEFAULT_TIER_THRESHOLDS, "7d");
+    expect(drift.driftDetected).toBe(true);
+    expect(drift.driftType).toBe("overestimation");
+    expect(drift.severity).toBe("severe");
+  });
+
+  it("ignores older overestimates that recent logs have moved past", () => {
+    const recentAccurate = olderAccurate.map((p, i) => ({ ...p, createdAt: recentOverestimates[i].createdAt }));
+    const olderOverestimates = recentOverestimates.map((p, i) => ({ ...p, createdAt: olderAccurate[i].createdAt }));
+    const drift = detectRecentDrift([...recentAccurate, ...olderOverestimates], DEFAULT_TIER_THRESHOLDS, "7d");
+    expect(drift.driftDetected).toBe(false);
+  });
+});
@@ -0,0 +1,338 @@
+import { db } from "../db";
+import { storage } from "../storage";
+import {
+  datasets,
+  predictionLogs,
+  amiStageTransitions,
+  type AmiStageTransition,
+  type PerformanceAlert,
+  type PredictionLog,
+} from "@shared/schema";
+import { eq, and, desc, sql } from "drizzle-orm";
+import { detectDrift, checkPatternRetirement, type DriftStatus, type RetirementResult } from "./drift-detection";
+import { computeDatasetDrift, type DatasetDriftReport } from "./statistical-drift";
+import { checkpointCondition, FINAL_CHECKPOINT, type ValidationCheckpoint } from "./checkpoints";
+import { getChampionModel } from "./model-registry";
+import { getDatasetType } from "./feature-engineering";
+import { loadTierThresholds, type TierThresholds } from "./model-training";
+import type { AMIScore } from "./correlation-engine";
+
+// ============================================================================
+// Performance Alerts
+// ============================================================================
+
+/**
+ * Findings worth a human's attention are written to performance_alerts. Each
+ * carries a dedupeKey naming what it is about (dataset, model, checkpoint,
+ * keyword), so a check that keeps firing refreshes one open alert instead of
+ * filling the inbox. The alert stays open, acknowledged or not, until a check
+ * finds the condition cleared; only a later recurrence opens a new one.
+ */
+export const ALERT_TYPES = ["drift", "feature_drift", "residual_shift", "pattern_retirement", "ami_stage_change"] as const;
+export type AlertType = (typeof ALERT_TYPES)[number];
+
+export const ALERT_SEVERITIES = ["info", "warning", "critical"] as const;
+export type AlertSeverity = (typeof ALERT_SEVERITIES)[number];
+
+export function isAlertType(value: unknown): value is AlertType {
+  return typeof value === "string" && (ALERT_TYPES as readonly string[]).includes(value);
+}
+
+export function isAlertSeverity(value: unknown): value is AlertSeverity {
+  return typeof value === "string" && (ALERT_SEVERITIES as readonly string[]).includes(value);
+}
+
+export interface AlertInput {
+  alertType: AlertType;
+  severity: AlertSeverity;
+  message: string;
+  dedupeKey: string;
+  datasetId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export async function resolveAlerts(dedupeKeys: string[]): Promise<PerformanceAlert[]> {
+  return storage.resolveAlerts(dedupeKeys);
+}
+
+export async function raiseAlert(alert: AlertInput): Promise<PerformanceAlert> {
+  return storage.createAlert({
+    alertType: alert.alertType,
+    severity: alert.severity,
+    message: alert.message,
+    dedupeKey: alert.dedupeKey,
+    datasetId: alert.datasetId ?? null,
+    metadata: alert.metadata ?? null,
+  });
+}
+
+// ============================================================================
+// Drift Checks
+// ============================================================================
+
+const DRIFT_SEVERITY: Record<DriftStatus["severity"], AlertSeverity> = {
+  none: "info",
+  mild: "info",
+  moderate: "warning",
+  severe: "critical",
+};
+
+const DRIFT_TYPES: NonNullable<DriftStatus["driftType"]>[] = ["overestimation", "tier_downgrade", "engagement_drop"];
+const DRIFT_WINDOW = 10;
+const RETIREMENT_MIN_SAMPLES = 5;
+
+export interface DriftCheck {
+  drift: DriftStatus;
+  statistical: DatasetDriftReport | null;
+  retirement: RetirementResult | null;
+  /** Validated logs at the checkpoint that the rolling heuristics looked at. */
+  sampleCount: number;
+}
+
+export interface DriftCheckResult extends DriftCheck {
+  alerts: PerformanceAlert[];
+}
+
+/**
+ * Turns one drift check into alerts. A check that had enough data and found
+ * nothing resolves its open alert; one without enough data leaves it alone.
+ */
+export async function raiseDriftAlerts(
+  datasetId: string,
+  checkpoint: ValidationCheckpoint,
+  result: DriftCheck
+): Promise<PerformanceAlert[]> {
+  const { drift, statistical, retirement, sampleCount } = result;
+  const alerts: AlertInput[] = [];
+  const cleared: string[] = [];
+
+  if (sampleCount >= DRIFT_WINDOW) {
+    cleared.push(
+      ...DRIFT_TYPES.filter((type) => !drift.driftDetected || type !== drift.driftType).map(
+        (type) => `drift:${datasetId}:${checkpoint}:${type}`
+      )
+    );
+  }
+  if (drift.driftDetected) {
+    alerts.push({
+      alertType: "drift",
+      severity: DRIFT_SEVERITY[drift.severity],
+      message: drift.details,
+      dedupeKey: `drift:${datasetId}:${checkpoint}:${drift.driftType}`,
+      datasetId,
+      metadata: { checkpoint, driftType: drift.driftType, severity: drift.severity, recommendation: drift.recommendation },
+    });
+  }
+
+  if (statistical) {
+    const drifted = statistical.features.filter((f) => f.status === "moderate" || f.status === "significant");
+    const compared = statistical.features.some((f) => f.status !== "insufficient_data");
+    if (compared && drifted.length === 0) {
+      cleared.push(`feature_drift:${datasetId}:${statistical.modelId}`);
+    }
+    if (drifted.length > 0) {
+      alerts.push({
+        alertType: "feature_drift",
+        severity: drifted.some((f) => f.status === "significant") ? "critical" : "warning",
+        message: `${drifted.length} input feature${drifted.length === 1 ? "" : "s"} drifted from the champion's training distribution: ${drifted.map((f) => f.featureName).join(", ")}`,
+        dedupeKey: `feature_drift:${datasetId}:${statistical.modelId}`,
+        datasetId,
+        metadata: {
+          modelId: statistical.modelId,
+          referenceSource: statistical.referenceSource,
+          features: drifted.map((f) => ({ featureName: f.featureName, status: f.status, psi: f.psi, ksPValue: f.ks?.pValue ?? null })),
+        },
+      });
+    }
+
+    const { residuals } = statistical;
+    const shift = [residuals.pageHinkley, residuals.cusum].find((d) => d?.detected);
+    if (!shift && (residuals.pageHinkley || residuals.cusum)) {
+      cleared.push(`residual_shift:${datasetId}:${statistical.modelId}:${checkpoint}`);
+    }
+    if (shift) {
+      const both = !!residuals.pageHinkley?.detected && !!residuals.cusum?.detected;
+      alerts.push({
+        alertType: "residual_shift",
+        severity: both ? "critical" : "warning",
+        message: `Champion residuals at ${checkpoint} shifted towards ${shift.direction}`,
+        dedupeKey: `residual_shift:${datasetId}:${statistical.modelId}:${checkpoint}`,
+        datasetId,
+        metadata: {
+          modelId: statistical.modelId,
+          checkpoint,
+          direction: shift.direction,
+          meanResidual: residuals.meanResidual,
+          changeDetectedAt: residuals.changeDetectedAt,
+          pageHinkley: residuals.pageHinkley?.detected ?? false,
+          cusum: residuals.cusum?.detected ?? false,
+        },
+      });
+    }
+  }
+
+  if (retirement && !retirement.retired && retirement.sampleCount >= RETIREMENT_MIN_SAMPLES) {
+    cleared.push(`pattern_retirement:${datasetId}:${retirement.patternId}`);
+  }
+  if (retirement?.retired) {
+    alerts.push({
+      alertType: "pattern_retirement",
+      severity: "critical",
+      message: retirement.reason ?? "Champion pattern flagged for retirement",
+      dedupeKey: `pattern_retirement:${datasetId}:${retirement.patternId}`,
+      datasetId,
+      metadata: {
+        modelId: retirement.patternId,
+        checkpoint,
+        underperformanceStdDev: retirement.underperformanceStdDev,
+        sampleCount: retirement.sampleCount,
+      },
+    });
+  }
+
+  await resolveAlerts(cleared);
+  const raised: PerformanceAlert[] = [];
+  for (const alert of alerts) {
+    raised.push(await raiseAlert(alert));
+  }
+  return raised;
+}
+
+/**
+ * detectDrift windows from the end of its input, so logs fetched newest-first
+ * (to keep the latest under a limit) are handed over oldest-first.
+ */
+export function detectRecentDrift(
+  newestFirst: PredictionLog[],
+  thresholds: TierThresholds,
+  checkpoint: ValidationCheckpoint
+): DriftStatus {
+  return detectDrift([...newestFirst].reverse(), DRIFT_WINDOW, thresholds, checkpoint);
+}
+
+/**
+ * Runs the rolling drift heuristics, per-feature PSI/KS and residual change
+ * detection, and the champion's retirement check at one checkpoint. Read-only;
+ * runDriftCheck also writes the findings as alerts.
+ */
+export async function checkDrift(
+  datasetId: string,
+  options: { checkpoint?: ValidationCheckpoint; window?: number } = {}
+): Promise<DriftCheck> {
+  const checkpoint = options.checkpoint ?? FINAL_CHECKPOINT;
+  const predictions = await db
+    .select()
+    .from(predictionLogs)
+    .where(and(eq(predictionLogs.datasetId, datasetId), checkpointCondition(checkpoint)))
+    .orderBy(desc(predictionLogs.createdAt))
+    .limit(2 * DRIFT_WINDOW);
+
+  const champion = await getChampionModel(datasetId);
+  const drift = detectRecentDrift(predictions, loadTierThresholds(champion?.tierThresholds), checkpoint);
+
+  // Per-feature PSI/KS, residual change detection and retirement need a
+  // champion to compare against; the rolling heuristics above run either way.
+  const [dataset] = await db.select().from(datasets).where(eq(datasets.id, datasetId)).limit(1);
+  const statistical =
+    champion && dataset && getDatasetType(dataset.datasetType)
+      ? await computeDatasetDrift(dataset, champion, { window: options.window, checkpoint })
+      : null;
+  const retirement = champion
+    ? checkPatternRetirement(
+        champion.id,
+        predictions.filter((p) => p.modelId === champion.id)
+      )
+    : null;
+
+  const sampleCount = predictions.filter((p) => p.actualValue !== null).length;
+  return { drift, statistical, retirement, sampleCount };
+}
+
+export async function runDriftCheck(
+  datasetId: string,
+  options: { checkpoint?: ValidationCheckpoint; window?: number } = {}
+): Promise<DriftCheckResult> {
+  const check = await checkDrift(datasetId, options);
+  const alerts = await raiseDriftAlerts(datasetId, options.checkpoint ?? FINAL_CHECKPOINT, check);
+  return { ...check, alerts };
+}
+
+// A full check re-extracts every record created since the champion was
+// trained, so validations only queue one. Checks queued for the same dataset
+// and checkpoint within the delay coalesce into a single run that sees them all.
+const DRIFT_CHECK_DELAY_MS = 30_000;
+const queuedDriftChecks = new Set<string>();
+
+export function scheduleDriftCheck(datasetId: string, checkpoint: ValidationCheckpoint): void {
+  const key = `${datasetId}:${checkpoint}`;
+  if (queuedDriftChecks.has(key)) return;
+  queuedDriftChecks.add(key);
+
+  setTimeout(() => {
+    queuedDriftChecks.delete(key);
+    runDriftCheck(datasetId, { checkpoint }).catch((error) => {
+      console.log(`[Intelligence Core] Drift check failed for ${datasetId} at ${checkpoint}:`, (error as Error).message);
+    });
+  }, DRIFT_CHECK_DELAY_MS).unref();
+}
+
+// ============================================================================
+// AMI Stage Changes
+// ============================================================================
+
+/**
+ * Records the keyword's AMI stage when it differs from the last one seen and
+ * raises an alert for the change. The first observation of a keyword only
+ * sets its baseline, and keywords without any signal data aren't tracked:
+ * their stage is the early_noise default, not an observation.
+ */
+export async function trackAMIStage(
+  keyword: string,
+  score: AMIScore
+): Promise<{ transition: AmiStageTransition | null; alert: PerformanceAlert | null }> {
+  if (Object.keys(score.layerScores).length === 0) {
+    return { transition: null, alert: null };
+  }
+
+  const transition = await db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`ami_stage:${keyword}`}))`);
+    const [last] = await tx
+      .select()
+      .from(amiStageTransitions)
+      .where(eq(amiStageTransitions.keyword, keyword))
+      .orderBy(desc(amiStageTransitions.createdAt))
+      .limit(1);
+    if (last?.toStage === score.stage) return null;
+
+    const [inserted] = await tx
+      .insert(amiStageTransitions)
+      .values({
+        keyword,
+        fromStage: last?.toStage ?? null,
+        toStage: score.stage,
+        ami: score.ami,
+        confidence: score.confidence,
+      })
+      .returning();
+    return inserted;
+  });
+
+  if (!transition?.fromStage) return { transition, alert: null };
+
+  // One alert per stage the keyword is in: leaving a stage clears its alert.
+  await resolveAlerts([`ami_stage:${keyword}:${transition.fromStage}`]);
+  const alert = await raiseAlert({
+    alertType: "ami_stage_change",
+    severity: "info",
+    message: `"${keyword}" moved from ${transition.fromStage} to ${transition.toStage} (AMI ${score.ami.toFixed(2)})`,
+    dedupeKey: `ami_stage:${keyword}:${transition.toStage}`,
+    metadata: {
+      keyword,
+      fromStage: transition.fromStage,
+      toStage: transition.toStage,
+      ami: score.ami,
+      confidence: score.confidence,
+    },
+  });
+  return { transition, alert };
+}
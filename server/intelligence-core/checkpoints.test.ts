@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import {
+  FINAL_CHECKPOINT,
+  checkpointCondition,
+  isValidationCheckpoint,
+  logCheckpoint,
+  parseCheckpoint,
+  parseCheckpointTargets,
+  recordTargetForHorizon,
+} from "./checkpoints";
+
+describe("parseCheckpoint", () => {
+  it("accepts checkpoint names and treats blanks as unset", () => {
+    expect(parseCheckpoint("24h")).toBe("24h");
+    expect(parseCheckpoint(undefined)).toBeUndefined();
+    expect(parseCheckpoint(null)).toBeUndefined();
+    expect(parseCheckpoint("")).toBeUndefined();
+  });
+
+  it("returns an error naming the field for anything else", () => {
+    expect(parseCheckpoint("48h", "horizon")).toBe("horizon must be one of: 24h, 72h, 7d");
+    expect(isValidationCheckpoint(7)).toBe(false);
+  });
+});
+
+describe("logCheckpoint", () => {
+  it("counts logs without a checkpoint as final", () => {
+    expect(logCheckpoint({ checkpoint: "72h" })).toBe("72h");
+    expect(logCheckpoint({ checkpoint: null })).toBe(FINAL_CHECKPOINT);
+  });
+});
+
+describe("checkpointCondition", () => {
+  const dialect = new PgDialect();
+
+  it("matches legacy unlabelled logs only for the final checkpoint", () => {
+    const final = dialect.sqlToQuery(checkpointCondition(FINAL_CHECKPOINT)!);
+    expect(final.sql).toContain("is null");
+    expect(final.params).toEqual([FINAL_CHECKPOINT]);
+
+    const early = dialect.sqlToQuery(checkpointCondition("24h")!);
+    expect(early.sql).not.toContain("is null");
+    expect(early.params).toEqual(["24h"]);
+  });
+});
+
+describe("parseCheckpointTargets", () => {
+  it("reads nested targets from JSON uploads", () => {
+    expect(parseCheckpointTargets({ checkpoint_targets: { "24h": 120, "7d": 900 } })).toEqual({ "24h": 120, "7d": 900 });
+    expect(parseCheckpointTargets({ checkpointTargets: { "72h": 400 } })).toEqual({ "72h": 400 });
+  });
+
+  it("reads flat CSV columns and parses numeric strings", () => {
+    expect(parseCheckpointTargets({ target_24h: "150", target_72h: "" })).toEqual({ "24h": 150 });
+  });
+
+  it("ignores non-numeric entries and returns null when nothing is left", () => {
+    expect(parseCheckpointTargets({ checkpoint_targets: { "24h": "lots", "7d": Infinity } })).toBeNull();
+    expect(parseCheckpointTargets({ views: 100 })).toBeNull();
+  });
+});
+
+describe("recordTargetForHorizon", () => {
+  const record = { targetValue: 1000, checkpointTargets: { "24h": 200 } };
+
+  it("uses the recorded checkpoint value when there is one", () => {
+    expect(recordTargetForHorizon(record, "24h")).toBe(200);
+  });
+
+  it("falls back to the extracted target only for the final horizon", () => {
+    expect(recordTargetForHorizon(record, "7d")).toBe(1000);
+    expect(recordTargetForHorizon(record, "72h")).toBeNull();
+    expect(recordTargetForHorizon({ targetValue: 50, checkpointTargets: null }, "72h")).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { predictionLogs } from "@shared/schema";
+import { eq, or, isNull, type SQL } from "drizzle-orm";
+
+// ============================================================================
+// Validation Checkpoints
+// ============================================================================
+
+/**
+ * Named horizons at which a snapshot's realized performance is recorded.
+ * Short-form numbers keep moving for days after posting, so each checkpoint
+ * gets its own prediction log and error metrics; only the final one validates
+ * the snapshot and credits shadow models and experiments.
+ */
+export const VALIDATION_CHECKPOINTS = ["24h", "72h", "7d"] as const;
+export type ValidationCheckpoint = (typeof VALIDATION_CHECKPOINTS)[number];
+
+export const FINAL_CHECKPOINT: ValidationCheckpoint = "7d";
+
+export type CheckpointTargets = Partial<Record<ValidationCheckpoint, number>>;
+
+export function isValidationCheckpoint(value: unknown): value is ValidationCheckpoint {
+  return typeof value === "string" && (VALIDATION_CHECKPOINTS as readonly string[]).includes(value);
+}
+
+/** Accepts a checkpoint name; returns an error message otherwise. */
+export function parseCheckpoint(value: unknown, field: string = "checkpoint"): ValidationCheckpoint | undefined | string {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (!isValidationCheckpoint(value)) {
+    return `${field} must be one of: ${VALIDATION_CHECKPOINTS.join(", ")}`;
+  }
+  return value;
+}
+
+/** Logs written before checkpoints existed carry no checkpoint and count as final. */
+export function logCheckpoint(log: { checkpoint: string | null }): ValidationCheckpoint {
+  return isValidationCheckpoint(log.checkpoint) ? log.checkpoint : FINAL_CHECKPOINT;
+}
+
+export function checkpointCondition(checkpoint: ValidationCheckpoint): SQL | undefined {
+  return checkpoint === FINAL_CHECKPOINT
+    ? or(eq(predictionLogs.checkpoint, checkpoint), isNull(predictionLogs.checkpoint))
+    : eq(predictionLogs.checkpoint, checkpoint);
+}
+
+/**
+ * Reads per-checkpoint targets from an uploaded row, either as a
+ * `checkpoint_targets` object (JSON uploads) or as flat `target_24h`-style
+ * columns (CSV). Non-numeric entries are ignored.
+ */
+export function parseCheckpointTargets(data: Record<string, any>): CheckpointTargets | null {
+  const nested = data.checkpoint_targets ?? data.checkpointTargets;
+  const source: Record<string, unknown> = nested && typeof nested === "object" ? nested : {};
+
+  const targets: CheckpointTargets = {};
+  for (const checkpoint of VALIDATION_CHECKPOINTS) {
+    const raw = source[checkpoint] ?? data[`target_${checkpoint}`];
+    if (raw === undefined || raw === null || raw === "") continue;
+    const value = typeof raw === "string" ? Number(raw) : raw;
+    if (typeof value === "number" && Number.isFinite(value)) targets[checkpoint] = value;
+  }
+  return Object.keys(targets).length > 0 ? targets : null;
+}
+
+/**
+ * The target a record contributes when training against `horizon`. The final
+ * horizon falls back to the record's extracted target; earlier horizons only
+ * use explicitly recorded checkpoint values, so records without one are skipped.
+ */
+export function recordTargetForHorizon(
+  record: { targetValue: number | null; checkpointTargets: unknown },
+  horizon: ValidationCheckpoint
+): number | null {
+  const targets = (record.checkpointTargets ?? {}) as CheckpointTargets;
+  const value = targets[horizon];
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  return horizon === FINAL_CHECKPOINT ? record.targetValue : null;
+}
@@ -0,0 +1,371 @@
+import { db } from "../db";
+import { engineeredFeatures } from "@shared/schema";
+import { eq, and, inArray } from "drizzle-orm";
+import {
+  getDatasetType,
+  registerDatasetType,
+  unregisterDatasetType,
+  normalizeCategory,
+  type CategoryValues,
+  type DatasetTypeRegistration,
+} from "./feature-engineering";
+
+// ============================================================================
+// Declarative Dataset Types
+// ============================================================================
+//
+// Dataset types defined through the API instead of in code. Each feature and
+// the target are rows in engineered_features whose extractionMethod holds a
+// JSON expression; they are compiled into ordinary registry extractors.
+// "category" features become categorical fields encoded per model at training.
+
+const FEATURE_ROW_TYPE = "declarative";
+const TARGET_ROW_TYPE = "declarative_target";
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/** A dot path into rawFeatures, or several alternatives tried in order (e.g. snake and camel case). */
+export type FieldPath = string | string[];
+
+export type NumericExpression =
+  | { op: "field"; path: FieldPath; default?: number }
+  | { op: "constant"; value: number }
+  | { op: "length"; path: FieldPath }
+  | { op: "ratio"; numerator: NumericExpression; denominator: NumericExpression };
+
+export interface OneHotExpression {
+  op: "one_hot";
+  path: FieldPath;
+  categories: string[];
+}
+
+/** A categorical field left to the model pipeline to encode (one-hot or target, per model). */
+export interface CategoryExpression {
+  op: "category";
+  path: FieldPath;
+}
+
+export interface FeatureDefinition {
+  name: string;
+  expression: NumericExpression | OneHotExpression | CategoryExpression;
+}
+
+export interface DatasetTypeDefinition {
+  datasetType: string;
+  features: FeatureDefinition[];
+  target: { name: string; expression: NumericExpression };
+}
+
+const declarativeTypes = new Set<string>();
+
+export function isDeclarativeDatasetType(datasetType: string): boolean {
+  return declarativeTypes.has(datasetType);
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function validatePath(path: unknown): string | null {
+  const paths = Array.isArray(path) ? path : [path];
+  if (paths.length === 0 || !paths.every((p) => typeof p === "string" && p.length > 0)) {
+    return "path must be a non-empty string or array of strings";
+  }
+  return null;
+}
+
+function validateNumericExpression(value: unknown, depth: number = 0): string | null {
+  if (!value || typeof value !== "object") return "expression must be an object";
+  if (depth > 8) return "expression is nested too deeply";
+  const expr = value as Record<string, unknown>;
+
+  switch (expr.op) {
+    case "field":
+      if (expr.default !== undefined && typeof expr.default !== "number") return "field default must be a number";
+      return validatePath(expr.path);
+    case "constant":
+      return typeof expr.value === "number" && Number.isFinite(expr.value) ? null : "constant value must be a number";
+    case "length":
+      return validatePath(expr.path);
+    case "ratio":
+      return validateNumericExpression(expr.numerator, depth + 1) ?? validateNumericExpression(expr.denominator, depth + 1);
+    default:
+      return `unknown op "${String(expr.op)}"`;
+  }
+}
+
+function validateFeatureExpression(value: unknown): string | null {
+  const expr = value as Record<string, unknown> | null;
+  if (expr && expr.op === "category") {
+    return validatePath(expr.path);
+  }
+  if (expr && expr.op === "one_hot") {
+    const categories = expr.categories;
+    if (!Array.isArray(categories) || categories.length === 0 || !categories.every((c) => typeof c === "string" && NAME_PATTERN.test(c))) {
+      return "one_hot categories must be a non-empty array of identifier-like strings";
+    }
+    if (new Set(categories).size !== categories.length) return "one_hot categories must be unique";
+    return validatePath(expr.path);
+  }
+  return validateNumericExpression(value);
+}
+
+/** Expanded output names: one_hot features produce one column per category. */
+export function outputFeatureNames(feature: FeatureDefinition): string[] {
+  return feature.expression.op === "one_hot"
+    ? feature.expression.categories.map((category) => `${feature.name}_${category}`)
+    : [feature.name];
+}
+
+export function parseDatasetTypeDefinition(datasetType: string, body: unknown): DatasetTypeDefinition | string {
+  if (!NAME_PATTERN.test(datasetType)) return "datasetType must start with a letter and contain only letters, digits and underscores";
+  if (!body || typeof body !== "object") return "definition must be an object";
+  const input = body as Record<string, unknown>;
+
+  if (!Array.isArray(input.features) || input.features.length === 0) return "features must be a non-empty array";
+  const target = input.target as Record<string, unknown> | undefined;
+  if (!target || typeof target.name !== "string" || !NAME_PATTERN.test(target.name)) return "target.name must be an identifier";
+  const targetError = validateNumericExpression(target.expression);
+  if (targetError) return `target: ${targetError}`;
+
+  const features: FeatureDefinition[] = [];
+  const outputNames = new Set<string>();
+  for (let index = 0; index < input.features.length; index++) {
+    const feature = input.features[index] as Record<string, unknown>;
+    if (!feature || typeof feature.name !== "string" || !NAME_PATTERN.test(feature.name)) {
+      return `features[${index}].name must be an identifier`;
+    }
+    const error = validateFeatureExpression(feature.expression);
+    if (error) return `features[${index}] (${feature.name}): ${error}`;
+
+    const definition = { name: feature.name, expression: feature.expression } as FeatureDefinition;
+    for (const name of outputFeatureNames(definition)) {
+      if (outputNames.has(name)) return `duplicate feature name "${name}"`;
+      outputNames.add(name);
+    }
+    features.push(definition);
+  }
+  if (outputNames.has(target.name as string)) return "target name must differ from every feature name";
+
+  return {
+    datasetType,
+    features,
+    target: { name: target.name as string, expression: target.expression as NumericExpression },
+  };
+}
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+function resolvePath(rawData: any, path: FieldPath): unknown {
+  const paths = Array.isArray(path) ? path : [path];
+  for (const candidate of paths) {
+    let current = rawData;
+    for (const segment of candidate.split(".")) {
+      if (current === null || current === undefined) break;
+      current = current[segment];
+    }
+    if (current !== null && current !== undefined) return current;
+  }
+  return undefined;
+}
+
+function toNumber(value: unknown, fallback: number): number {
+  if (typeof value === "boolean") return value ? 1 : 0;
+  const n = Number(value);
+  return value === null || value === undefined || value === "" || !Number.isFinite(n) ? fallback : n;
+}
+
+function evaluateNumeric(expr: NumericExpression, rawData: any): number {
+  switch (expr.op) {
+    case "field":
+      return toNumber(resolvePath(rawData, expr.path), expr.default ?? 0);
+    case "constant":
+      return expr.value;
+    case "length": {
+      const value = resolvePath(rawData, expr.path);
+      return Array.isArray(value) || typeof value === "string" ? value.length : 0;
+    }
+    case "ratio": {
+      const denominator = evaluateNumeric(expr.denominator, rawData);
+      return denominator !== 0 ? evaluateNumeric(expr.numerator, rawData) / denominator : 0;
+    }
+  }
+}
+
+export function compileDatasetTypeDefinition(definition: DatasetTypeDefinition): DatasetTypeRegistration {
+  return {
+    datasetType: definition.datasetType,
+    featureExtractor: (rawData: any) => {
+      const features: Record<string, number> = {};
+      for (const feature of definition.features) {
+        const expr = feature.expression;
+        if (expr.op === "category") continue;
+        if (expr.op === "one_hot") {
+          const value = String(resolvePath(rawData, expr.path) ?? "").toLowerCase();
+          for (const category of expr.categories) {
+            features[`${feature.name}_${category}`] = value === category.toLowerCase() ? 1 : 0;
+          }
+        } else {
+          features[feature.name] = evaluateNumeric(expr, rawData);
+        }
+      }
+      return features;
+    },
+    categoricalExtractor: (rawData: any) => {
+      const categories: CategoryValues = {};
+      for (const feature of definition.features) {
+        if (feature.expression.op === "category") {
+          categories[feature.name] = normalizeCategory(resolvePath(rawData, feature.expression.path));
+        }
+      }
+      return categories;
+    },
+    targetMetricDefinition: {
+      name: definition.target.name,
+      extractFn: (rawData: any) => evaluateNumeric(definition.target.expression, rawData),
+    },
+  };
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+function rowsToDefinition(datasetType: string, rows: Array<typeof engineeredFeatures.$inferSelect>): DatasetTypeDefinition | null {
+  const targetRow = rows.find((r) => r.featureType === TARGET_ROW_TYPE);
+  if (!targetRow?.extractionMethod) return null;
+
+  const features = rows
+    .filter((r) => r.featureType === FEATURE_ROW_TYPE && r.extractionMethod)
+    .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0))
+    .map((r) => ({ name: r.featureName, expression: JSON.parse(r.extractionMethod!) }));
+
+  return {
+    datasetType,
+    features,
+    target: { name: targetRow.featureName, expression: JSON.parse(targetRow.extractionMethod) },
+  };
+}
+
+export async function getDatasetTypeDefinition(datasetType: string): Promise<DatasetTypeDefinition | null> {
+  const rows = await db
+    .select()
+    .from(engineeredFeatures)
+    .where(
+      and(
+        eq(engineeredFeatures.datasetType, datasetType),
+        inArray(engineeredFeatures.featureType, [FEATURE_ROW_TYPE, TARGET_ROW_TYPE])
+      )
+    );
+  return rowsToDefinition(datasetType, rows);
+}
+
+/**
+ * Replaces the stored definition of a declarative type and re-registers it.
+ * Rows are upserted by name so per-feature settings (normalization method,
+ * importance) survive edits to a feature's expression.
+ */
+export async function saveDatasetTypeDefinition(definition: DatasetTypeDefinition): Promise<DatasetTypeDefinition> {
+  const { datasetType } = definition;
+  if (getDatasetType(datasetType) && !declarativeTypes.has(datasetType)) {
+    throw new Error(`Dataset type "${datasetType}" is built in and cannot be redefined`);
+  }
+
+  const wanted = [
+    ...definition.features.map((f) => ({ featureName: f.name, featureType: FEATURE_ROW_TYPE, expression: f.expression })),
+    { featureName: definition.target.name, featureType: TARGET_ROW_TYPE, expression: definition.target.expression },
+  ];
+
+  await db.transaction(async (tx) => {
+    const existing = await tx
+      .select()
+      .from(engineeredFeatures)
+      .where(
+        and(
+          eq(engineeredFeatures.datasetType, datasetType),
+          inArray(engineeredFeatures.featureType, [FEATURE_ROW_TYPE, TARGET_ROW_TYPE])
+        )
+      );
+
+    const wantedNames = new Set(wanted.map((w) => w.featureName));
+    const stale = existing.filter((row) => !wantedNames.has(row.featureName)).map((row) => row.id);
+    if (stale.length > 0) {
+      await tx.delete(engineeredFeatures).where(inArray(engineeredFeatures.id, stale));
+    }
+
+    for (const row of wanted) {
+      const values = { featureType: row.featureType, extractionMethod: JSON.stringify(row.expression), isActive: true };
+      const [current] = await tx
+        .select()
+        .from(engineeredFeatures)
+        .where(and(eq(engineeredFeatures.datasetType, datasetType), eq(engineeredFeatures.featureName, row.featureName)))
+        .limit(1);
+
+      if (current) {
+        await tx.update(engineeredFeatures).set({ ...values, updatedAt: new Date() }).where(eq(engineeredFeatures.id, current.id));
+      } else {
+        await tx.insert(engineeredFeatures).values({ datasetType, featureName: row.featureName, ...values });
+      }
+    }
+  });
+
+  registerDatasetType(compileDatasetTypeDefinition(definition));
+  declarativeTypes.add(datasetType);
+  return definition;
+}
+
+export async function deleteDatasetTypeDefinition(datasetType: string): Promise<boolean> {
+  if (!declarativeTypes.has(datasetType)) return false;
+
+  await db
+    .delete(engineeredFeatures)
+    .where(
+      and(
+        eq(engineeredFeatures.datasetType, datasetType),
+        inArray(engineeredFeatures.featureType, [FEATURE_ROW_TYPE, TARGET_ROW_TYPE])
+      )
+    );
+
+  unregisterDatasetType(datasetType);
+  declarativeTypes.delete(datasetType);
+  return true;
+}
+
+/**
+ * Registers every stored declarative type. Called once at startup; a broken
+ * definition is logged and skipped so it can't take the others down.
+ */
+export async function loadDatasetTypeDefinitions(): Promise<string[]> {
+  const rows = await db
+    .select()
+    .from(engineeredFeatures)
+    .where(inArray(engineeredFeatures.featureType, [FEATURE_ROW_TYPE, TARGET_ROW_TYPE]));
+
+  const byType = new Map<string, typeof rows>();
+  for (const row of rows) {
+    if (!byType.has(row.datasetType)) byType.set(row.datasetType, []);
+    byType.get(row.datasetType)!.push(row);
+  }
+
+  const loaded: string[] = [];
+  byType.forEach((typeRows, datasetType) => {
+    try {
+      if (getDatasetType(datasetType) && !declarativeTypes.has(datasetType)) {
+        throw new Error("conflicts with a built-in dataset type");
+      }
+      const stored = rowsToDefinition(datasetType, typeRows);
+      if (!stored) throw new Error("no target definition stored");
+      const definition = parseDatasetTypeDefinition(datasetType, stored);
+      if (typeof definition === "string") throw new Error(definition);
+
+      registerDatasetType(compileDatasetTypeDefinition(definition));
+      declarativeTypes.add(datasetType);
+      loaded.push(datasetType);
+    } catch (error) {
+      console.error(`[Intelligence Core] Skipping dataset type "${datasetType}":`, (error as Error).message);
+    }
+  });
+
+  return loaded;
+}
@@ -3,6 +3,8 @@
 // ============================================================================
 
 import { PredictionLog } from "@shared/schema";
+import { classifyTier, DEFAULT_TIER_THRESHOLDS, type TierThresholds } from "./model-training";
+import { logCheckpoint, FINAL_CHECKPOINT, type ValidationCheckpoint } from "./checkpoints";
 
 // ============================================================================
 // Pattern Retirement
@@ -72,25 +74,37 @@ export function checkPatternRetirement(
 
 export interface DriftStatus {
   driftDetected: boolean;
-  driftType?: "overestimation" | "engagement_drop";
+  driftType?: "overestimation" | "tier_downgrade" | "engagement_drop";
   severity: "none" | "mild" | "moderate" | "severe";
   recommendation: "none" | "reduce_confidence" | "retrain" | "increase_exploration";
   details: string;
+  checkpoint: ValidationCheckpoint;
 }
 
-export function detectDrift(predictions: PredictionLog[], windowSize: number = 10): DriftStatus {
+/**
+ * Only logs recorded at `checkpoint` are considered, so early-checkpoint
+ * actuals that are still climbing aren't read as the model overestimating.
+ */
+export function detectDrift(
+  predictions: PredictionLog[],
+  windowSize: number = 10,
+  thresholds: TierThresholds = DEFAULT_TIER_THRESHOLDS,
+  checkpoint: ValidationCheckpoint = FINAL_CHECKPOINT
+): DriftStatus {
   const result: DriftStatus = {
     driftDetected: false,
     severity: "none",
     recommendation: "none",
     details: "",
+    checkpoint,
   };
 
-  if (predictions.length === 0) {
+  const checkpointPredictions = predictions.filter((p) => logCheckpoint(p) === checkpoint);
+  if (checkpointPredictions.length === 0) {
     return result;
   }
 
-  const windowPredictions = predictions.slice(-windowSize);
+  const windowPredictions = checkpointPredictions.slice(-windowSize);
 
   // Check 1: Overestimation Detection
   const overestimationCount = windowPredictions.filter((p) => {
@@ -124,7 +138,27 @@ export function detectDrift(predictions: PredictionLog[], windowSize: number = 1
     }
   }
 
-  // Check 2: Engagement Drop Detection
+  // Check 2: Tier Downgrades
+  // Tiers are re-derived with the model's own boundaries rather than read from
+  // the logs, so datasets on a percentage scale aren't judged by 0.3 / 0.7.
+  if (validPredictions.length >= 5) {
+    const tierRank: Record<string, number> = { low: 0, mid: 1, top: 2 };
+    const downgrades = validPredictions.filter(
+      (p) => tierRank[classifyTier(p.actualValue!, thresholds)] < tierRank[classifyTier(p.predictedValue, thresholds)]
+    ).length;
+    const downgradeRatio = downgrades / validPredictions.length;
+
+    if (downgradeRatio > 0.5) {
+      result.driftDetected = true;
+      result.driftType = "tier_downgrade";
+      result.severity = downgradeRatio > 0.7 ? "severe" : "moderate";
+      result.recommendation = "retrain";
+      result.details = `${(downgradeRatio * 100).toFixed(1)}% of predictions landed in a lower tier than predicted (>50%). Model requires retraining.`;
+      return result;
+    }
+  }
+
+  // Check 3: Engagement Drop Detection
   const actualValues = validPredictions.map((p) => p.actualValue!);
 
   if (actualValues.length >= 5) {
@@ -0,0 +1,207 @@
+import { db } from "../db";
+import { experimentGroups, type ExperimentGroup } from "@shared/schema";
+import { eq, and, desc, isNotNull } from "drizzle-orm";
+import {
+  decideExplorationStrategy,
+  decideBanditStrategy,
+  getDefaultMutationBounds,
+  EXPLOIT_ARM,
+  type ArmStats,
+  type ExplorationConfig,
+  type ExplorationDecision,
+  type ExplorationStrategy,
+} from "./exploration";
+import type { TierThresholds } from "./model-training";
+import { createSeededRandom } from "./random";
+
+// ============================================================================
+// Persisted Experiment Groups
+// ============================================================================
+
+export interface ExplorationOptions {
+  strategy?: ExplorationStrategy;
+  config?: Partial<ExplorationConfig>;
+  amiScore?: { stage?: string };
+  sourceId?: string;
+  sourceType?: string;
+  snapshotId?: string;
+  predictedValue?: number;
+  /** Replays a recorded decision when given; a fresh seed is drawn otherwise. */
+  seed?: number;
+}
+
+function armOf(group: ExperimentGroup): string {
+  return group.arm ?? (group.groupType === "exploitation" ? EXPLOIT_ARM : "mutate_all");
+}
+
+/** Success/pull counts per arm over every experiment with a validated outcome. */
+export async function loadArmStats(datasetId: string): Promise<Record<string, ArmStats>> {
+  const rows = await db
+    .select()
+    .from(experimentGroups)
+    .where(and(eq(experimentGroups.datasetId, datasetId), isNotNull(experimentGroups.outcome)));
+
+  const stats: Record<string, ArmStats> = {};
+  for (const row of rows) {
+    const arm = armOf(row);
+    stats[arm] ??= { arm, pulls: 0, successes: 0 };
+    stats[arm].pulls++;
+    if (row.outcome === "success") stats[arm].successes++;
+  }
+  return stats;
+}
+
+export interface PendingDecision {
+  decision: ExplorationDecision;
+  /** Arm stats the bandit decided from; null for epsilon-greedy. */
+  armStats: Record<string, ArmStats> | null;
+  /** Features the decision could mutate; stored so replay offers the same arms. */
+  mutationBounds: ExplorationConfig["mutationBounds"];
+  features: Record<string, number>;
+}
+
+/**
+ * Draws an exploration decision without storing it, for callers that act on
+ * the decision (e.g. rewrite a script) before they know what to link it to.
+ */
+export async function decideExploration(
+  datasetId: string,
+  features: Record<string, number>,
+  options: ExplorationOptions = {}
+): Promise<PendingDecision> {
+  const strategy = options.strategy ?? "epsilon_greedy";
+  const rng = createSeededRandom(options.seed);
+  const mutationBounds = options.config?.mutationBounds ?? getDefaultMutationBounds();
+  const config = { ...options.config, mutationBounds };
+  const armStats = strategy === "epsilon_greedy" ? null : await loadArmStats(datasetId);
+  const decision = armStats
+    ? decideBanditStrategy(features, strategy as "thompson" | "ucb", armStats, config, rng)
+    : decideExplorationStrategy(features, config, options.amiScore, rng);
+  return { decision, armStats, mutationBounds, features };
+}
+
+/**
+ * Stores a decision. Only experiments linked to a snapshot are credited with
+ * an outcome, so leaving snapshotId out records the pull without crediting its arm.
+ */
+export async function saveExplorationDecision(
+  datasetId: string,
+  pending: PendingDecision,
+  options: Pick<ExplorationOptions, "sourceId" | "sourceType" | "snapshotId" | "predictedValue"> = {}
+): Promise<ExperimentGroup> {
+  const { decision, armStats, mutationBounds, features } = pending;
+  const [experiment] = await db
+    .insert(experimentGroups)
+    .values({
+      datasetId,
+      groupType: decision.groupType,
+      strategy: decision.strategy,
+      arm: decision.arm,
+      seed: decision.seed,
+      armStats,
+      epsilon: decision.epsilon,
+      mutationBounds,
+      mutationParameters: decision.mutationParameters ?? null,
+      originalFeatures: decision.originalFeatures ?? features,
+      mutatedFeatures: decision.features,
+      predictedValue: options.predictedValue ?? null,
+      sourceId: options.sourceId ?? null,
+      sourceType: options.sourceType ?? null,
+      snapshotId: options.snapshotId ?? null,
+    })
+    .returning();
+  return experiment;
+}
+
+/** Makes an exploration decision and stores it, so its outcome can later be credited. */
+export async function recordExplorationDecision(
+  datasetId: string,
+  features: Record<string, number>,
+  options: ExplorationOptions = {}
+): Promise<{ decision: ExplorationDecision; experiment: ExperimentGroup }> {
+  const pending = await decideExploration(datasetId, features, options);
+  const experiment = await saveExplorationDecision(datasetId, pending, options);
+  return { decision: pending.decision, experiment };
+}
+
+/**
+ * Re-runs a stored decision from its seed, original features, strategy, mutation
+ * bounds and the arm stats it saw (epsilon-greedy replays with the stored, already
+ * AMI-adjusted epsilon). `matches` is false if the replay diverges.
+ */
+export async function replayExperiment(
+  experimentId: string
+): Promise<{ experiment: ExperimentGroup; replayed: ExplorationDecision; matches: boolean } | null> {
+  const [experiment] = await db
+    .select()
+    .from(experimentGroups)
+    .where(eq(experimentGroups.id, experimentId))
+    .limit(1);
+  if (!experiment) return null;
+  if (experiment.seed === null) {
+    throw new Error("Experiment was recorded before seeds were stored and cannot be replayed");
+  }
+
+  const features = (experiment.originalFeatures ?? {}) as Record<string, number>;
+  const rng = createSeededRandom(experiment.seed);
+  const strategy = experiment.strategy ?? "epsilon_greedy";
+  // Experiments stored before bounds were recorded all used the defaults.
+  const mutationBounds =
+    (experiment.mutationBounds as ExplorationConfig["mutationBounds"] | null) ?? getDefaultMutationBounds();
+  const replayed =
+    strategy === "thompson" || strategy === "ucb"
+      ? decideBanditStrategy(
+          features,
+          strategy,
+          (experiment.armStats ?? {}) as Record<string, ArmStats>,
+          { mutationBounds },
+          rng
+        )
+      : decideExplorationStrategy(features, { epsilon: experiment.epsilon ?? 0.15, mutationBounds }, undefined, rng);
+
+  // Compared key by key: jsonb does not preserve key order.
+  const stored = (experiment.mutatedFeatures ?? {}) as Record<string, number>;
+  const names = Array.from(new Set([...Object.keys(stored), ...Object.keys(replayed.features)]));
+  const matches = replayed.arm === armOf(experiment) && names.every((name) => stored[name] === replayed.features[name]);
+  return { experiment, replayed, matches };
+}
+
+export async function linkExperimentSnapshot(
+  experimentId: string,
+  snapshotId: string,
+  predictedValue: number
+): Promise<ExperimentGroup | undefined> {
+  const [updated] = await db
+    .update(experimentGroups)
+    .set({ snapshotId, predictedValue })
+    .where(eq(experimentGroups.id, experimentId))
+    .returning();
+  return updated;
+}
+
+/**
+ * Credits validated results to the experiments behind a snapshot. An outcome
+ * is a success when the actual value reaches the middle of the mid tier, the
+ * same cut used for directional accuracy.
+ */
+export async function recordExperimentOutcome(
+  snapshotId: string,
+  actualValue: number,
+  thresholds: TierThresholds
+): Promise<ExperimentGroup[]> {
+  const midpoint = (thresholds.low + thresholds.top) / 2;
+  return db
+    .update(experimentGroups)
+    .set({ actualValue, outcome: actualValue >= midpoint ? "success" : "failure", validatedAt: new Date() })
+    .where(eq(experimentGroups.snapshotId, snapshotId))
+    .returning();
+}
+
+export async function listExperiments(datasetId: string, limit: number = 50): Promise<ExperimentGroup[]> {
+  return db
+    .select()
+    .from(experimentGroups)
+    .where(eq(experimentGroups.datasetId, datasetId))
+    .orderBy(desc(experimentGroups.createdAt))
+    .limit(limit);
+}
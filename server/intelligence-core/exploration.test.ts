@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import {
+  EXPLOIT_ARM,
+  adjustEpsilon,
+  decideBanditStrategy,
+  decideExplorationStrategy,
+  getDefaultMutationBounds,
+  listArms,
+  mutateFeatures,
+  selectArm,
+  type ArmStats,
+} from "./exploration";
+import { createSeededRandom } from "./random";
+
+const features = { setupDuration: 0.5, punchlineTiming: 0.4, toneShiftDensity: 0.2, escalationDensity: 0.6, deliveryPaceWps: 0.3 };
+
+function statsFor(entries: [string, number, number][]): Record<string, ArmStats> {
+  return Object.fromEntries(entries.map(([arm, pulls, successes]) => [arm, { arm, pulls, successes }]));
+}
+
+describe("adjustEpsilon", () => {
+  it("scales epsilon by AMI stage", () => {
+    expect(adjustEpsilon(0.1)).toBe(0.1);
+    expect(adjustEpsilon(0.1, "search_growth")).toBeCloseTo(0.07);
+    expect(adjustEpsilon(0.1, "early_noise")).toBeCloseTo(0.12);
+    expect(adjustEpsilon(0.1, "media_amplification")).toBeCloseTo(0.15);
+    expect(adjustEpsilon(0.1, "unknown")).toBe(0.1);
+  });
+});
+
+describe("mutateFeatures", () => {
+  it("moves features in whole steps and stays within bounds", () => {
+    const bounds = getDefaultMutationBounds();
+    const { features: mutated, mutationLog } = mutateFeatures(features, bounds, createSeededRandom(7));
+
+    for (const [name, { min, max, step }] of Object.entries(bounds)) {
+      expect(mutated[name]).toBeGreaterThanOrEqual(min);
+      expect(mutated[name]).toBeLessThanOrEqual(max);
+      expect(mutationLog[name].delta).toBeCloseTo(mutated[name] - features[name as keyof typeof features]);
+      const steps = (mutated[name] - features[name as keyof typeof features]) / step;
+      const clamped = mutated[name] === min || mutated[name] === max;
+      if (!clamped) expect(steps).toBeCloseTo(Math.round(steps));
+    }
+  });
+
+  it("replays exactly from the same seed", () => {
+    const bounds = getDefaultMutationBounds();
+    expect(mutateFeatures(features, bounds, createSeededRandom(42))).toEqual(
+      mutateFeatures(features, bounds, createSeededRandom(42))
+    );
+  });
+});
+
+describe("decideExplorationStrategy", () => {
+  it("always exploits at epsilon 0 and always explores at epsilon 1", () => {
+    const bounds = getDefaultMutationBounds();
+    const exploit = decideExplorationStrategy(features, { epsilon: 0, mutationBounds: bounds }, undefined, createSeededRandom(1));
+    expect(exploit.groupType).toBe("exploitation");
+    expect(exploit.arm).toBe(EXPLOIT_ARM);
+    expect(exploit.features).toEqual(features);
+
+    const explore = decideExplorationStrategy(features, { epsilon: 1, mutationBounds: bounds }, undefined, createSeededRandom(1));
+    expect(explore.groupType).toBe("exploration");
+    expect(explore.arm).toBe("mutate_all");
+    expect(explore.originalFeatures).toEqual(features);
+    expect(Object.keys(explore.mutationParameters!)).toEqual(Object.keys(bounds));
+  });
+
+  it("records the seed it drew from", () => {
+    const decision = decideExplorationStrategy(features, undefined, undefined, createSeededRandom(99));
+    expect(decision.seed).toBe(99);
+    expect(decideExplorationStrategy(features, undefined, undefined, createSeededRandom(99))).toEqual(decision);
+  });
+});
+
+describe("listArms", () => {
+  it("lists the exploit arm plus one mutation arm per feature", () => {
+    expect(listArms({ a: { min: 0, max: 1, step: 0.1 }, b: { min: 0, max: 1, step: 0.1 } })).toEqual([
+      EXPLOIT_ARM,
+      "mutate:a",
+      "mutate:b",
+    ]);
+  });
+});
+
+describe("selectArm", () => {
+  const arms = ["exploit", "mutate:a", "mutate:b"];
+
+  it("plays every arm once under UCB before comparing scores", () => {
+    expect(selectArm("ucb", arms, statsFor([["exploit", 3, 3]]))).toBe("mutate:a");
+    expect(selectArm("ucb", arms, statsFor([["exploit", 3, 3], ["mutate:a", 1, 0]]))).toBe("mutate:b");
+  });
+
+  it("picks the highest upper confidence bound under UCB", () => {
+    const stats = statsFor([["exploit", 50, 45], ["mutate:a", 50, 10], ["mutate:b", 50, 20]]);
+    expect(selectArm("ucb", arms, stats)).toBe("exploit");
+  });
+
+  it("favours arms with a strong record under Thompson sampling", () => {
+    const stats = statsFor([["exploit", 200, 10], ["mutate:a", 200, 190], ["mutate:b", 200, 20]]);
+    const rng = createSeededRandom(3);
+    const picks = Array.from({ length: 50 }, () => selectArm("thompson", arms, stats, rng.next));
+    expect(picks.every((arm) => arm === "mutate:a")).toBe(true);
+  });
+});
+
+describe("decideBanditStrategy", () => {
+  it("mutates only the chosen feature", () => {
+    const stats = statsFor([["exploit", 1, 0]]);
+    const decision = decideBanditStrategy(features, "ucb", stats, undefined, createSeededRandom(5));
+
+    expect(decision.arm).toBe("mutate:setupDuration");
+    expect(decision.groupType).toBe("exploration");
+    expect(Object.keys(decision.mutationParameters!)).toEqual(["setupDuration"]);
+    const { setupDuration: _changed, ...unchanged } = decision.features;
+    const { setupDuration: _original, ...rest } = features;
+    expect(unchanged).toEqual(rest);
+  });
+
+  it("reports the share of past pulls that explored as epsilon", () => {
+    const stats = statsFor([
+      ["exploit", 6, 3],
+      ["mutate:setupDuration", 1, 0],
+      ["mutate:punchlineTiming", 1, 0],
+      ["mutate:toneShiftDensity", 1, 0],
+      ["mutate:escalationDensity", 1, 0],
+      ["mutate:deliveryPaceWps", 0, 0],
+    ]);
+    const decision = decideBanditStrategy(features, "ucb", stats, undefined, createSeededRandom(5));
+    expect(decision.arm).toBe("mutate:deliveryPaceWps");
+    expect(decision.epsilon).toBeCloseTo(0.4);
+  });
+
+  it("replays exactly from the same seed", () => {
+    const stats = statsFor([["exploit", 4, 2], ["mutate:setupDuration", 4, 1]]);
+    expect(decideBanditStrategy(features, "thompson", stats, undefined, createSeededRandom(11))).toEqual(
+      decideBanditStrategy(features, "thompson", stats, undefined, createSeededRandom(11))
+    );
+  });
+});
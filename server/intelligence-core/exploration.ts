@@ -1,10 +1,20 @@
 /**
  * Exploration vs Exploitation Engine
  *
- * Implements epsilon-greedy exploration strategy with AMI-driven epsilon adjustment.
+ * Implements epsilon-greedy exploration strategy with AMI-driven epsilon adjustment,
+ * plus Thompson sampling and UCB1 bandits that learn from stored experiment outcomes.
  * Used to balance between exploiting known-good features and exploring new feature combinations.
  */
 
+import { createSeededRandom, type SeededRandom } from "./random";
+
+export const EXPLORATION_STRATEGIES = ["epsilon_greedy", "thompson", "ucb"] as const;
+export type ExplorationStrategy = (typeof EXPLORATION_STRATEGIES)[number];
+
+export function isExplorationStrategy(value: unknown): value is ExplorationStrategy {
+  return typeof value === "string" && (EXPLORATION_STRATEGIES as readonly string[]).includes(value);
+}
+
 export interface ExplorationConfig {
   epsilon: number;
   mutationBounds: Record<string, { min: number; max: number; step: number }>;
@@ -12,6 +22,11 @@ export interface ExplorationConfig {
 
 export interface ExplorationDecision {
   groupType: "exploitation" | "exploration";
+  strategy: ExplorationStrategy;
+  /** "exploit", "mutate_all" (epsilon-greedy), or "mutate:<feature>" for a bandit arm. */
+  arm: string;
+  /** Seed of the PRNG stream behind the decision; replaying with it reproduces the decision. */
+  seed: number;
   epsilon: number;
   features: Record<string, number>;
   mutationParameters?: Record<string, number>;
@@ -69,7 +84,8 @@ export function adjustEpsilon(baseEpsilon: number, amiStage?: string): number {
  */
 export function mutateFeatures(
   features: Record<string, number>,
-  bounds: Record<string, { min: number; max: number; step: number }>
+  bounds: Record<string, { min: number; max: number; step: number }>,
+  rng: SeededRandom = createSeededRandom()
 ): MutationResult {
   const mutated: Record<string, number> = { ...features };
   const mutationLog: Record<string, { original: number; mutated: number; delta: number }> = {};
@@ -79,7 +95,7 @@ export function mutateFeatures(
     const { min, max, step } = bound;
 
     const numSteps = Math.floor((max - min) / step);
-    const randomSteps = Math.floor(Math.random() * (2 * numSteps + 1)) - numSteps;
+    const randomSteps = rng.int(2 * numSteps + 1) - numSteps;
 
     let newValue = originalValue + randomSteps * step;
     newValue = Math.max(min, Math.min(max, newValue));
@@ -107,28 +123,34 @@ export function mutateFeatures(
  */
 export function decideExplorationStrategy(
   features: Record<string, number>,
-  config?: ExplorationConfig,
-  amiScore?: { stage?: string }
+  config?: Partial<ExplorationConfig>,
+  amiScore?: { stage?: string },
+  rng: SeededRandom = createSeededRandom()
 ): ExplorationDecision {
   const mutationBounds = config?.mutationBounds ?? getDefaultMutationBounds();
   let baseEpsilon = config?.epsilon ?? 0.15;
   const adjustedEpsilon = adjustEpsilon(baseEpsilon, amiScore?.stage);
 
-  const random = Math.random();
-  const shouldExplore = random < adjustedEpsilon;
+  const shouldExplore = rng.next() < adjustedEpsilon;
 
   if (!shouldExplore) {
     return {
       groupType: "exploitation",
+      strategy: "epsilon_greedy",
+      arm: EXPLOIT_ARM,
+      seed: rng.seed,
       epsilon: adjustedEpsilon,
       features: { ...features },
     };
   }
 
-  const { features: mutatedFeatures, mutationLog } = mutateFeatures(features, mutationBounds);
+  const { features: mutatedFeatures, mutationLog } = mutateFeatures(features, mutationBounds, rng);
 
   return {
     groupType: "exploration",
+    strategy: "epsilon_greedy",
+    arm: "mutate_all",
+    seed: rng.seed,
     epsilon: adjustedEpsilon,
     features: mutatedFeatures,
     mutationParameters: Object.fromEntries(
@@ -137,3 +159,138 @@ export function decideExplorationStrategy(
     originalFeatures: { ...features },
   };
 }
+
+// ============================================================================
+// Bandit Exploration
+// ============================================================================
+
+export const EXPLOIT_ARM = "exploit";
+
+export interface ArmStats {
+  arm: string;
+  pulls: number;
+  successes: number;
+}
+
+/** Arms are "keep the features" plus one single-feature mutation per mutable feature. */
+export function listArms(bounds: Record<string, { min: number; max: number; step: number }>): string[] {
+  return [EXPLOIT_ARM, ...Object.keys(bounds).map((featureName) => `mutate:${featureName}`)];
+}
+
+function sampleStandardNormal(random: () => number): number {
+  const u = Math.max(random(), Number.MIN_VALUE);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+// Marsaglia & Tsang; shape < 1 is boosted via Gamma(shape + 1) * U^(1 / shape).
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(Math.max(random(), Number.MIN_VALUE), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleStandardNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v;
+    }
+  }
+}
+
+function sampleBeta(alpha: number, beta: number, random: () => number): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x / (x + y);
+}
+
+/**
+ * Picks an arm from Bernoulli outcome counts. Thompson draws from each arm's
+ * Beta(1 + successes, 1 + failures) posterior; UCB1 plays every arm once and
+ * then maximizes mean + sqrt(2 ln N / n).
+ */
+export function selectArm(
+  strategy: "thompson" | "ucb",
+  arms: string[],
+  stats: Record<string, ArmStats>,
+  random: () => number = createSeededRandom().next
+): string {
+  if (strategy === "ucb") {
+    const untried = arms.find((arm) => (stats[arm]?.pulls ?? 0) === 0);
+    if (untried) return untried;
+    const totalPulls = arms.reduce((sum, arm) => sum + stats[arm].pulls, 0);
+    let best = arms[0];
+    let bestScore = Number.NEGATIVE_INFINITY;
+    for (const arm of arms) {
+      const { pulls, successes } = stats[arm];
+      const score = successes / pulls + Math.sqrt((2 * Math.log(totalPulls)) / pulls);
+      if (score > bestScore) {
+        bestScore = score;
+        best = arm;
+      }
+    }
+    return best;
+  }
+
+  let best = arms[0];
+  let bestDraw = Number.NEGATIVE_INFINITY;
+  for (const arm of arms) {
+    const pulls = stats[arm]?.pulls ?? 0;
+    const successes = stats[arm]?.successes ?? 0;
+    const draw = sampleBeta(1 + successes, 1 + pulls - successes, random);
+    if (draw > bestDraw) {
+      bestDraw = draw;
+      best = arm;
+    }
+  }
+  return best;
+}
+
+/**
+ * Bandit counterpart of decideExplorationStrategy: the chosen arm either keeps
+ * the features or mutates a single feature, so outcomes can be credited to it.
+ * `epsilon` on the decision is the share of past pulls that explored.
+ */
+export function decideBanditStrategy(
+  features: Record<string, number>,
+  strategy: "thompson" | "ucb",
+  stats: Record<string, ArmStats>,
+  config?: Partial<ExplorationConfig>,
+  rng: SeededRandom = createSeededRandom()
+): ExplorationDecision {
+  const mutationBounds = config?.mutationBounds ?? getDefaultMutationBounds();
+  const arms = listArms(mutationBounds);
+  const arm = selectArm(strategy, arms, stats, rng.next);
+
+  const totalPulls = arms.reduce((sum, a) => sum + (stats[a]?.pulls ?? 0), 0);
+  const explorePulls = totalPulls - (stats[EXPLOIT_ARM]?.pulls ?? 0);
+  const epsilon = totalPulls > 0 ? explorePulls / totalPulls : 0;
+
+  if (arm === EXPLOIT_ARM) {
+    return { groupType: "exploitation", strategy, arm, seed: rng.seed, epsilon, features: { ...features } };
+  }
+
+  const featureName = arm.slice("mutate:".length);
+  const { features: mutatedFeatures, mutationLog } = mutateFeatures(
+    features,
+    { [featureName]: mutationBounds[featureName] },
+    rng
+  );
+
+  return {
+    groupType: "exploration",
+    strategy,
+    arm,
+    seed: rng.seed,
+    epsilon,
+    features: mutatedFeatures,
+    mutationParameters: { [featureName]: mutationLog[featureName].delta },
+    originalFeatures: { ...features },
+  };
+}
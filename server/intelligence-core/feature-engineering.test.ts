@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  encodeCategoricals,
+  encodeTrainingCategoricals,
+  fitCategoricalEncoders,
+  prepareTrainingInputs,
+  TARGET_ENCODING_SMOOTHING,
+  type ExtractedRecord,
+} from "./feature-engineering";
+
+function row(views: number, platform: string | null, target: number): ExtractedRecord {
+  return { features: { views }, categories: { platform }, target };
+}
+
+describe("prepareTrainingInputs", () => {
+  it("fits scaling on the training rows only", () => {
+    const prepared = prepareTrainingInputs([row(0, null, 1), row(10, null, 2)], [row(5, null, 3), row(20, null, 4)]);
+
+    expect(prepared.featureStats.views).toMatchObject({ min: 0, max: 10, method: "min_max" });
+    expect(prepared.train.map((r) => r.views)).toEqual([0, 1]);
+    // Held-out values are scaled against the training range and clipped.
+    expect(prepared.test.map((r) => r.views)).toEqual([0.5, 1]);
+  });
+
+  it("only knows categories seen in training", () => {
+    const prepared = prepareTrainingInputs([row(1, "tiktok", 1), row(2, "youtube", 2)], [row(3, "instagram", 3)]);
+
+    expect(prepared.categoricalEncoders.platform).toEqual({ method: "one_hot", categories: ["tiktok", "youtube"] });
+    expect(prepared.test[0]).toEqual({ views: 1, platform_tiktok: 0, platform_youtube: 0 });
+  });
+
+  it("applies the configured normalization and encoding methods", () => {
+    const prepared = prepareTrainingInputs(
+      [row(1, "tiktok", 10), row(3, "tiktok", 20)],
+      [row(2, "tiktok", 30)],
+      { platform: "target" },
+      { views: "z_score" }
+    );
+
+    expect(prepared.featureStats.views.method).toBe("z_score");
+    expect(prepared.test[0].views).toBe(0);
+    expect(prepared.categoricalEncoders.platform.method).toBe("target");
+    expect(Object.keys(prepared.test[0]).sort()).toEqual(["platform_target", "views"]);
+  });
+});
+
+describe("encodeTrainingCategoricals", () => {
+  const rows = [row(0, "tiktok", 10), row(0, "tiktok", 30), row(0, "youtube", 50), row(0, "tiktok", 20)];
+  const encoders = fitCategoricalEncoders(
+    rows.map((r) => r.categories),
+    rows.map((r) => r.target),
+    { platform: "target" }
+  );
+  const prior = 27.5;
+  const smoothed = (sum: number, count: number) => (sum + TARGET_ENCODING_SMOOTHING * prior) / (count + TARGET_ENCODING_SMOOTHING);
+
+  it("encodes each row from the rows before it only", () => {
+    expect(encodeTrainingCategoricals(rows, encoders).map((r) => r.platform_target)).toEqual([
+      prior,
+      smoothed(10, 1),
+      prior,
+      smoothed(40, 2),
+    ]);
+  });
+
+  it("doesn't let a row's own target move its encoding", () => {
+    const relabelled = rows.map((r, i) => (i === 1 ? { ...r, target: 1000 } : r));
+    expect(encodeTrainingCategoricals(relabelled, encoders)[1]).toEqual(encodeTrainingCategoricals(rows, encoders)[1]);
+  });
+
+  it("leaves the frozen encoder untouched for serving", () => {
+    encodeTrainingCategoricals(rows, encoders);
+    expect(encodeCategoricals({ platform: "tiktok" }, encoders).platform_target).toBeCloseTo(smoothed(60, 3));
+  });
+
+  it("passes one-hot fields through with the frozen vocabulary", () => {
+    const oneHot = fitCategoricalEncoders(rows.map((r) => r.categories), rows.map((r) => r.target));
+    expect(encodeTrainingCategoricals(rows, oneHot)[2]).toEqual({ platform_tiktok: 0, platform_youtube: 1 });
+  });
+});
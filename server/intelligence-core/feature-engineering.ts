@@ -1,14 +1,42 @@
-interface DatasetTypeRegistration {
+/** A record the extractor may look back on: its raw categories and realized target. */
+export interface HistoryEntry {
+  categories: CategoryValues;
+  target: number;
+}
+
+/**
+ * Dataset context for a single extraction. `history` holds only records
+ * created strictly before the one being extracted, oldest first, so
+ * history-based features never see the record's own outcome or later ones.
+ */
+export interface ExtractionContext {
+  history: HistoryEntry[];
+}
+
+export interface DatasetTypeRegistration {
   datasetType: string;
-  featureExtractor: (rawData: any) => Record<string, number>;
+  featureExtractor: (rawData: any, context?: ExtractionContext) => Record<string, number>;
+  /** Raw category labels; encoded per model (one-hot or target) rather than by the extractor. */
+  categoricalExtractor?: (rawData: any) => CategoryValues;
   targetMetricDefinition: { name: string; extractFn: (rawData: any) => number };
 }
 
-interface FeatureStats {
+export const NORMALIZATION_METHODS = ["min_max", "z_score", "robust", "log1p", "none"] as const;
+export type NormalizationMethod = (typeof NORMALIZATION_METHODS)[number];
+
+export interface FeatureStats {
   min: number;
   max: number;
   mean: number;
   stdDev: number;
+  median?: number;
+  q1?: number;
+  q3?: number;
+  method?: NormalizationMethod;
+}
+
+export function isNormalizationMethod(value: unknown): value is NormalizationMethod {
+  return typeof value === "string" && (NORMALIZATION_METHODS as readonly string[]).includes(value);
 }
 
 const datasetTypeRegistry = new Map<string, DatasetTypeRegistration>();
@@ -21,12 +49,28 @@ export function getDatasetType(datasetType: string): DatasetTypeRegistration | u
   return datasetTypeRegistry.get(datasetType);
 }
 
+export function unregisterDatasetType(datasetType: string): boolean {
+  return datasetTypeRegistry.delete(datasetType);
+}
+
+export function listDatasetTypes(): string[] {
+  return Array.from(datasetTypeRegistry.keys());
+}
+
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
 export function computeFeatureStats(featureArrays: Record<string, number[]>): Record<string, FeatureStats> {
   const stats: Record<string, FeatureStats> = {};
 
   for (const [featureName, values] of Object.entries(featureArrays)) {
     if (values.length === 0) {
-      stats[featureName] = { min: 0, max: 0, mean: 0, stdDev: 0 };
+      stats[featureName] = { min: 0, max: 0, mean: 0, stdDev: 0, median: 0, q1: 0, q3: 0 };
       continue;
     }
 
@@ -36,12 +80,107 @@ export function computeFeatureStats(featureArrays: Record<string, number[]>): Re
     const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
     const stdDev = Math.sqrt(variance);
 
-    stats[featureName] = { min, max, mean, stdDev };
+    const sorted = [...values].sort((a, b) => a - b);
+    const median = quantile(sorted, 0.5);
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+
+    stats[featureName] = { min, max, mean, stdDev, median, q1, q3 };
   }
 
   return stats;
 }
 
+/**
+ * Computes per-feature stats over a set of extracted feature rows. The result is
+ * frozen onto the trained model so prediction scales inputs exactly as training did.
+ * Features without an entry in `methods` fall back to min_max.
+ */
+export function fitFeatureStats(
+  featureRows: Record<string, number>[],
+  methods: Record<string, NormalizationMethod> = {}
+): Record<string, FeatureStats> {
+  const featureArrays: Record<string, number[]> = {};
+  for (const row of featureRows) {
+    for (const [name, value] of Object.entries(row)) {
+      (featureArrays[name] ??= []).push(value);
+    }
+  }
+
+  const stats = computeFeatureStats(featureArrays);
+  for (const [name, s] of Object.entries(stats)) {
+    s.method = methods[name] ?? "min_max";
+  }
+  return stats;
+}
+
+// Sign-preserving log1p so negative deltas don't produce NaN.
+function signedLog1p(value: number): number {
+  return Math.sign(value) * Math.log1p(Math.abs(value));
+}
+
+/**
+ * Applies a single feature's frozen normalization. min_max and log1p are
+ * clipped to [0, 1] against the training range; z_score and robust are left
+ * unbounded so outliers keep their distance from the centre.
+ */
+export function normalizeValue(value: number, s: FeatureStats): number {
+  switch (s.method ?? "min_max") {
+    case "none":
+      return value;
+    case "z_score":
+      return s.stdDev > 0 ? (value - s.mean) / s.stdDev : 0;
+    case "robust": {
+      const iqr = (s.q3 ?? 0) - (s.q1 ?? 0);
+      return iqr > 0 ? (value - (s.median ?? s.mean)) / iqr : 0;
+    }
+    case "log1p": {
+      const low = signedLog1p(s.min);
+      const high = signedLog1p(s.max);
+      if (high === low) return 0;
+      return Math.max(0, Math.min(1, (signedLog1p(value) - low) / (high - low)));
+    }
+    case "min_max":
+    default:
+      if (s.max === s.min) return 0;
+      return Math.max(0, Math.min(1, (value - s.min) / (s.max - s.min)));
+  }
+}
+
+/**
+ * Inverse of normalizeValue: maps a normalized value back into the feature's
+ * raw units. Clipped methods can only round-trip values inside the training range.
+ */
+export function denormalizeValue(value: number, s: FeatureStats): number {
+  switch (s.method ?? "min_max") {
+    case "none":
+      return value;
+    case "z_score":
+      return s.mean + value * s.stdDev;
+    case "robust":
+      return (s.median ?? s.mean) + value * ((s.q3 ?? 0) - (s.q1 ?? 0));
+    case "log1p": {
+      const low = signedLog1p(s.min);
+      const high = signedLog1p(s.max);
+      const logged = low + value * (high - low);
+      return Math.sign(logged) * Math.expm1(Math.abs(logged));
+    }
+    case "min_max":
+    default:
+      return s.min + value * (s.max - s.min);
+  }
+}
+
+/**
+ * Range a normalized feature can take given its training data. Used by the
+ * optimizer to keep suggestions inside values the model has actually seen.
+ */
+export function getNormalizedBounds(s: FeatureStats): { min: number; max: number } {
+  const a = normalizeValue(s.min, s);
+  const b = normalizeValue(s.max, s);
+  return { min: Math.min(a, b), max: Math.max(a, b) };
+}
+
 export function normalizeFeatures(
   features: Record<string, number>,
   stats: Record<string, FeatureStats>
@@ -50,52 +189,281 @@ export function normalizeFeatures(
 
   for (const [key, value] of Object.entries(features)) {
     const s = stats[key];
-    if (!s || s.max === s.min) {
-      normalized[key] = 0;
-    } else {
-      normalized[key] = Math.max(0, Math.min(1, (value - s.min) / (s.max - s.min)));
-    }
+    normalized[key] = s ? normalizeValue(value, s) : 0;
   }
 
   return normalized;
 }
 
+export type ExtractedRecord = { features: Record<string, number>; categories: CategoryValues; target: number };
+
 export function extractFeaturesForRecord(
   datasetType: string,
-  rawData: any
-): { features: Record<string, number>; target: number } | null {
+  rawData: any,
+  context?: ExtractionContext
+): ExtractedRecord | null {
   const registration = datasetTypeRegistry.get(datasetType);
   if (!registration) {
     return null;
   }
 
-  const features = registration.featureExtractor(rawData);
+  const features = registration.featureExtractor(rawData, context);
+  const categories = registration.categoricalExtractor?.(rawData) ?? {};
   const target = registration.targetMetricDefinition.extractFn(rawData);
 
-  return { features, target };
-}
-
-const HUMOR_CATEGORIES = [
-  "girlfriend_expensive",
-  "wife_expensive",
-  "kids_expensive",
-  "walletus_maximus",
-  "bluechew_wallet",
-  "buddy_got_raise",
-  "broke_boys",
-  "bar_stool_economics",
-  "chrome_addiction",
-  "cubicle_vs_contractor",
-];
-
-const PLATFORM_ENCODING: Record<string, number> = {
-  youtube: 0.2,
-  tiktok: 0.4,
-  instagram: 0.6,
-  facebook: 0.8,
-};
-
-function videoAdFeatureExtractor(rawData: any): Record<string, number> {
+  return { features, categories, target };
+}
+
+/**
+ * Extracts a batch of dataset records in creation order, giving each one only
+ * the records created strictly before it as history (rows sharing a timestamp
+ * don't see each other). Results are returned in input order.
+ */
+export function extractFeaturesForRecords(
+  datasetType: string,
+  records: Array<{ rawData: any; targetValue?: number | null; createdAt?: Date | string | null }>
+): Array<ExtractedRecord | null> {
+  const time = (r: { createdAt?: Date | string | null }) => (r.createdAt ? new Date(r.createdAt).getTime() : 0);
+  const order = records.map((_, i) => i).sort((a, b) => time(records[a]) - time(records[b]));
+
+  const results: Array<ExtractedRecord | null> = new Array(records.length).fill(null);
+  const context: ExtractionContext = { history: [] };
+  let pending: HistoryEntry[] = [];
+  let pendingTime = Number.NEGATIVE_INFINITY;
+
+  for (const index of order) {
+    const record = records[index];
+    if (time(record) !== pendingTime) {
+      context.history.push(...pending);
+      pending = [];
+      pendingTime = time(record);
+    }
+
+    const result = extractFeaturesForRecord(datasetType, record.rawData, context);
+    results[index] = result;
+    if (result) {
+      pending.push({ categories: result.categories, target: record.targetValue ?? result.target });
+    }
+  }
+
+  return results;
+}
+
+/** History for scoring a new input: every record already in the dataset. */
+export function buildExtractionContext(
+  datasetType: string,
+  records: Array<{ rawData: any; targetValue?: number | null; createdAt?: Date | string | null }>
+): ExtractionContext {
+  const registration = datasetTypeRegistry.get(datasetType);
+  const history = records
+    .slice()
+    .sort((a, b) => (a.createdAt ? new Date(a.createdAt).getTime() : 0) - (b.createdAt ? new Date(b.createdAt).getTime() : 0))
+    .map((r) => ({
+      categories: registration?.categoricalExtractor?.(r.rawData) ?? {},
+      target: r.targetValue ?? registration?.targetMetricDefinition.extractFn(r.rawData) ?? 0,
+    }));
+  return { history };
+}
+
+// ============================================================================
+// Categorical Encoding
+// ============================================================================
+
+export const CATEGORICAL_ENCODINGS = ["one_hot", "target"] as const;
+export type CategoricalEncodingMethod = (typeof CATEGORICAL_ENCODINGS)[number];
+
+export type CategoryValues = Record<string, string | null>;
+
+/**
+ * Frozen per model on pattern_models.categorical_encoders. A category the
+ * model never saw encodes as all-zero one-hot columns (the baseline) or as
+ * the prior mean under target encoding.
+ */
+export type CategoricalEncoder =
+  | { method: "one_hot"; categories: string[] }
+  | { method: "target"; stats: Record<string, { sum: number; count: number }>; priorMean: number; smoothing: number };
+
+export const TARGET_ENCODING_SMOOTHING = 10;
+
+export function isCategoricalEncodingMethod(value: unknown): value is CategoricalEncodingMethod {
+  return typeof value === "string" && (CATEGORICAL_ENCODINGS as readonly string[]).includes(value);
+}
+
+export function normalizeCategory(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const label = String(value).trim().toLowerCase();
+  return label.length > 0 ? label : null;
+}
+
+function categoryColumn(field: string, category: string): string {
+  return `${field}_${category.replace(/[^a-z0-9]+/g, "_")}`;
+}
+
+export function fitCategoricalEncoders(
+  rows: CategoryValues[],
+  targets: number[],
+  methods: Record<string, CategoricalEncodingMethod> = {}
+): Record<string, CategoricalEncoder> {
+  const fields = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((field) => fields.add(field)));
+  const priorMean = targets.length > 0 ? targets.reduce((sum, v) => sum + v, 0) / targets.length : 0;
+
+  const encoders: Record<string, CategoricalEncoder> = {};
+  fields.forEach((field) => {
+    if ((methods[field] ?? "one_hot") === "target") {
+      const stats: Record<string, { sum: number; count: number }> = {};
+      rows.forEach((row, i) => {
+        const category = normalizeCategory(row[field]);
+        if (category === null) return;
+        stats[category] ??= { sum: 0, count: 0 };
+        stats[category].sum += targets[i];
+        stats[category].count++;
+      });
+      encoders[field] = { method: "target", stats, priorMean, smoothing: TARGET_ENCODING_SMOOTHING };
+    } else {
+      const seen = new Set<string>();
+      rows.forEach((row) => {
+        const category = normalizeCategory(row[field]);
+        if (category !== null) seen.add(category);
+      });
+      encoders[field] = { method: "one_hot", categories: Array.from(seen).sort() };
+    }
+  });
+  return encoders;
+}
+
+/** Expands categories into numeric columns. */
+export function encodeCategoricals(
+  categories: CategoryValues,
+  encoders: Record<string, CategoricalEncoder>
+): Record<string, number> {
+  const encoded: Record<string, number> = {};
+
+  for (const [field, encoder] of Object.entries(encoders)) {
+    const category = normalizeCategory(categories[field]);
+
+    if (encoder.method === "one_hot") {
+      for (const known of encoder.categories) {
+        encoded[categoryColumn(field, known)] = category === known ? 1 : 0;
+      }
+      continue;
+    }
+
+    const seen = category !== null ? encoder.stats[category] : undefined;
+    encoded[`${field}_target`] =
+      ((seen?.sum ?? 0) + encoder.smoothing * encoder.priorMean) / ((seen?.count ?? 0) + encoder.smoothing);
+  }
+
+  return encoded;
+}
+
+/**
+ * Encodes training rows, given in time order, the way each would have been
+ * encoded when it arrived: target encoding only uses category statistics of
+ * the rows before it, so neither a row's own label nor later ones reach its
+ * inputs. Serving encodes with the statistics of every training row, which
+ * are all earlier than the input. One-hot columns use the frozen vocabulary.
+ */
+export function encodeTrainingCategoricals(
+  rows: ExtractedRecord[],
+  encoders: Record<string, CategoricalEncoder>
+): Record<string, number>[] {
+  const running: Record<string, CategoricalEncoder> = {};
+  for (const [field, encoder] of Object.entries(encoders)) {
+    running[field] = encoder.method === "target" ? { ...encoder, stats: {} } : encoder;
+  }
+
+  return rows.map((row) => {
+    const encoded = encodeCategoricals(row.categories, running);
+    for (const [field, encoder] of Object.entries(running)) {
+      const category = normalizeCategory(row.categories[field]);
+      if (encoder.method !== "target" || category === null) continue;
+      encoder.stats[category] ??= { sum: 0, count: 0 };
+      encoder.stats[category].sum += row.target;
+      encoder.stats[category].count++;
+    }
+    return encoded;
+  });
+}
+
+/**
+ * Builds a model's normalized input from extracted numeric features and raw
+ * categories, using only what was frozen on that model.
+ */
+export function prepareModelFeatures(
+  features: Record<string, number>,
+  categories: CategoryValues | undefined,
+  featureStats: Record<string, FeatureStats>,
+  encoders: Record<string, CategoricalEncoder> | null | undefined
+): Record<string, number> {
+  const encoded = encoders ? encodeCategoricals(categories ?? {}, encoders) : {};
+  return normalizeFeatures({ ...features, ...encoded }, featureStats);
+}
+
+export interface PreparedTrainingInputs {
+  categoricalEncoders: Record<string, CategoricalEncoder>;
+  featureStats: Record<string, FeatureStats>;
+  train: Record<string, number>[];
+  test: Record<string, number>[];
+}
+
+/**
+ * Fits categorical encoders and scaling on the training rows only and applies
+ * them to both sides; evaluation rows are transformed like any new input.
+ * Training rows must be in time order; see encodeTrainingCategoricals.
+ */
+export function prepareTrainingInputs(
+  train: ExtractedRecord[],
+  test: ExtractedRecord[],
+  encodingMethods: Record<string, CategoricalEncodingMethod> = {},
+  normalizationMethods: Record<string, NormalizationMethod> = {}
+): PreparedTrainingInputs {
+  const categoricalEncoders = fitCategoricalEncoders(
+    train.map((r) => r.categories),
+    train.map((r) => r.target),
+    encodingMethods
+  );
+  const trainCategoricals = encodeTrainingCategoricals(train, categoricalEncoders);
+  const encodedTrain = train.map((r, i) => ({ ...r.features, ...trainCategoricals[i] }));
+  const encodedTest = test.map((r) => ({ ...r.features, ...encodeCategoricals(r.categories, categoricalEncoders) }));
+  const featureStats = fitFeatureStats(encodedTrain, normalizationMethods);
+
+  return {
+    categoricalEncoders,
+    featureStats,
+    train: encodedTrain.map((features) => normalizeFeatures(features, featureStats)),
+    test: encodedTest.map((features) => normalizeFeatures(features, featureStats)),
+  };
+}
+
+export const HISTORY_WINDOW = 20;
+
+/**
+ * How the record's platform + humor category combination performed over its
+ * last HISTORY_WINDOW earlier records, relative to the mean of all earlier
+ * records. Zero when there is no history or no earlier record of that pairing.
+ */
+function historicalPerformanceDelta(categories: CategoryValues, context?: ExtractionContext): number {
+  if (!context || context.history.length === 0) return 0;
+
+  let total = 0;
+  for (const entry of context.history) total += entry.target;
+  const datasetMean = total / context.history.length;
+
+  let matchTotal = 0;
+  let matchCount = 0;
+  for (let i = context.history.length - 1; i >= 0 && matchCount < HISTORY_WINDOW; i--) {
+    const entry = context.history[i];
+    if (entry.categories.platform === categories.platform && entry.categories.humorCategory === categories.humorCategory) {
+      matchTotal += entry.target;
+      matchCount++;
+    }
+  }
+
+  return matchCount > 0 ? matchTotal / matchCount - datasetMean : 0;
+}
+
+function videoAdFeatureExtractor(rawData: any, context?: ExtractionContext): Record<string, number> {
   const hp = rawData.humor_performance || rawData;
 
   const setupDuration = Number(hp.setup_duration ?? hp.setupDuration ?? 0);
@@ -125,14 +493,7 @@ function videoAdFeatureExtractor(rawData: any): Record<string, number> {
 
   const wordCount = Number(hp.word_count ?? hp.wordCount ?? 0);
 
-  const platform = String(hp.platform ?? "other").toLowerCase();
-  const platformEncoding = PLATFORM_ENCODING[platform] ?? 1.0;
-
-  const humorCategory = String(hp.humor_category ?? hp.humorCategory ?? "");
-  const categoryIndex = HUMOR_CATEGORIES.indexOf(humorCategory);
-  const categoryEncoding = categoryIndex >= 0 ? (categoryIndex + 1) / 10 : 0;
-
-  const historicalPerformanceDelta = 0;
+  const performanceDelta = historicalPerformanceDelta(videoAdCategoricalExtractor(rawData), context);
 
   return {
     setupDuration,
@@ -144,9 +505,15 @@ function videoAdFeatureExtractor(rawData: any): Record<string, number> {
     retentionSlope,
     retentionDropPoint,
     wordCount,
-    platformEncoding,
-    categoryEncoding,
-    historicalPerformanceDelta,
+    historicalPerformanceDelta: performanceDelta,
+  };
+}
+
+function videoAdCategoricalExtractor(rawData: any): CategoryValues {
+  const hp = rawData.humor_performance || rawData;
+  return {
+    platform: normalizeCategory(hp.platform),
+    humorCategory: normalizeCategory(hp.humor_category ?? hp.humorCategory),
   };
 }
 
@@ -158,6 +525,7 @@ function videoAdTargetExtractor(rawData: any): number {
 registerDatasetType({
   datasetType: "video_ads",
   featureExtractor: videoAdFeatureExtractor,
+  categoricalExtractor: videoAdCategoricalExtractor,
   targetMetricDefinition: {
     name: "engagement_rate",
     extractFn: videoAdTargetExtractor,
@@ -167,6 +535,7 @@ registerDatasetType({
 registerDatasetType({
   datasetType: "video_ads_outpost",
   featureExtractor: videoAdFeatureExtractor,
+  categoricalExtractor: videoAdCategoricalExtractor,
   targetMetricDefinition: {
     name: "engagement_rate",
     extractFn: videoAdTargetExtractor,
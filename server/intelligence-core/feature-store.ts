@@ -0,0 +1,115 @@
+import { db } from "../db";
+import { datasets, engineeredFeatures, type EngineeredFeature, type PatternModel } from "@shared/schema";
+import { eq, and, ne } from "drizzle-orm";
+import {
+  isNormalizationMethod,
+  isCategoricalEncodingMethod,
+  type NormalizationMethod,
+  type CategoricalEncodingMethod,
+} from "./feature-engineering";
+import type { FeatureImportance } from "./model-training";
+
+type FeatureStoreExecutor = Pick<typeof db, "select" | "insert" | "update">;
+
+// ============================================================================
+// Engineered Feature Settings (per dataset type)
+// ============================================================================
+
+export async function listEngineeredFeatures(datasetType: string): Promise<EngineeredFeature[]> {
+  return db
+    .select()
+    .from(engineeredFeatures)
+    .where(eq(engineeredFeatures.datasetType, datasetType));
+}
+
+/**
+ * Reads the normalizationMethod column for every active feature of a dataset
+ * type. Unknown or empty values are dropped so callers fall back to min_max.
+ */
+export async function loadNormalizationMethods(datasetType: string): Promise<Record<string, NormalizationMethod>> {
+  const rows = await db
+    .select()
+    .from(engineeredFeatures)
+    .where(and(eq(engineeredFeatures.datasetType, datasetType), eq(engineeredFeatures.isActive, true)));
+
+  const methods: Record<string, NormalizationMethod> = {};
+  for (const row of rows) {
+    if (isNormalizationMethod(row.normalizationMethod)) {
+      methods[row.featureName] = row.normalizationMethod;
+    }
+  }
+  return methods;
+}
+
+/** Encoding chosen for each categorical field; fields without one are one-hot encoded. */
+export async function loadEncodingMethods(datasetType: string): Promise<Record<string, CategoricalEncodingMethod>> {
+  const rows = await db
+    .select()
+    .from(engineeredFeatures)
+    .where(and(eq(engineeredFeatures.datasetType, datasetType), eq(engineeredFeatures.isActive, true)));
+
+  const methods: Record<string, CategoricalEncodingMethod> = {};
+  for (const row of rows) {
+    if (isCategoricalEncodingMethod(row.encodingMethod)) {
+      methods[row.featureName] = row.encodingMethod;
+    }
+  }
+  return methods;
+}
+
+export async function upsertEngineeredFeature(
+  datasetType: string,
+  featureName: string,
+  values: Partial<Omit<EngineeredFeature, "id" | "datasetType" | "featureName" | "createdAt">>,
+  executor: FeatureStoreExecutor = db
+): Promise<EngineeredFeature> {
+  const [existing] = await executor
+    .select()
+    .from(engineeredFeatures)
+    .where(and(eq(engineeredFeatures.datasetType, datasetType), eq(engineeredFeatures.featureName, featureName)))
+    .limit(1);
+
+  if (existing) {
+    const [updated] = await executor
+      .update(engineeredFeatures)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(engineeredFeatures.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  const [created] = await executor
+    .insert(engineeredFeatures)
+    .values({
+      datasetType,
+      featureName,
+      featureType: values.featureType ?? "numeric",
+      ...values,
+    })
+    .returning();
+  return created;
+}
+
+/**
+ * Copies the champion's permutation importances (from its training metrics)
+ * into engineered_features, so the column describes the model that serves
+ * predictions. Features the champion doesn't use drop back to 0. Settings are
+ * per dataset type, so with several datasets of one type the latest promotion wins.
+ */
+export async function recordChampionImportance(champion: PatternModel, executor: FeatureStoreExecutor = db): Promise<void> {
+  const [dataset] = await executor
+    .select({ datasetType: datasets.datasetType })
+    .from(datasets)
+    .where(eq(datasets.id, champion.datasetId))
+    .limit(1);
+  if (!dataset) return;
+
+  const metrics = champion.trainingMetrics as { featureImportance?: FeatureImportance[] } | null;
+  await executor
+    .update(engineeredFeatures)
+    .set({ importance: 0 })
+    .where(and(eq(engineeredFeatures.datasetType, dataset.datasetType), ne(engineeredFeatures.importance, 0)));
+  for (const { featureName, importance } of metrics?.featureImportance ?? []) {
+    await upsertEngineeredFeature(dataset.datasetType, featureName, { importance }, executor);
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  trainBoostedTrees,
+  predictBoostedTrees,
+  explainBoostedTrees,
+  boostingParamsSchema,
+  MAX_BOOSTING_PARAMS,
+} from "./gradient-boosting";
+
+// y = 10 when x0 > 0.5, otherwise 0; x1 is noise the trees should ignore.
+function stepData(n: number = 40): { X: number[][]; y: number[] } {
+  const X: number[][] = [];
+  const y: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const x0 = i / (n - 1);
+    X.push([x0, (i * 7) % 5]);
+    y.push(x0 > 0.5 ? 10 : 0);
+  }
+  return { X, y };
+}
+
+describe("trainBoostedTrees", () => {
+  it("fits a step function", () => {
+    const { X, y } = stepData();
+    const artifact = trainBoostedTrees(X, y, { nEstimators: 50, learningRate: 0.3 });
+
+    expect(predictBoostedTrees(artifact, [0.1, 0])).toBeCloseTo(0, 1);
+    expect(predictBoostedTrees(artifact, [0.9, 0])).toBeCloseTo(10, 1);
+  });
+
+  it("is deterministic", () => {
+    const { X, y } = stepData();
+    expect(trainBoostedTrees(X, y)).toEqual(trainBoostedTrees(X, y));
+  });
+
+  it("starts from the target mean and stops once residuals vanish", () => {
+    const artifact = trainBoostedTrees([[1], [2], [3]], [4, 4, 4]);
+    expect(artifact.baseScore).toBe(4);
+    expect(artifact.trees).toHaveLength(0);
+  });
+
+  it("returns an empty artifact for no rows", () => {
+    expect(trainBoostedTrees([], [])).toEqual({ baseScore: 0, learningRate: 0.1, trees: [] });
+  });
+
+  it("never splits below minSamplesLeaf", () => {
+    const { X, y } = stepData(10);
+    const artifact = trainBoostedTrees(X, y, { maxDepth: 6, minSamplesLeaf: 6 });
+    // Ten rows can't be split into two leaves of six, so the first tree is the
+    // zero mean residual and boosting stops there.
+    expect(artifact.trees).toHaveLength(0);
+    expect(predictBoostedTrees(artifact, [0.9, 0])).toBe(5);
+  });
+});
+
+describe("explainBoostedTrees", () => {
+  it("attributes the prediction exactly across features", () => {
+    const { X, y } = stepData();
+    const artifact = trainBoostedTrees(X, y, { nEstimators: 20 });
+
+    for (const x of [[0.2, 1], [0.8, 3]]) {
+      const explanation = explainBoostedTrees(artifact, x, 2)!;
+      const total = explanation.baseValue + explanation.contributions.reduce((sum, c) => sum + c, 0);
+      expect(total).toBeCloseTo(predictBoostedTrees(artifact, x), 9);
+    }
+  });
+
+  it("returns null for trees stored without node means", () => {
+    const artifact = {
+      baseScore: 1,
+      learningRate: 0.1,
+      trees: [{ feature: 0, threshold: 0.5, left: { value: -1 }, right: { value: 1 } }],
+    };
+    expect(explainBoostedTrees(artifact, [0], 1)).toBeNull();
+  });
+});
+
+describe("boostingParamsSchema", () => {
+  it("accepts omitted and in-range values", () => {
+    expect(boostingParamsSchema.safeParse({}).success).toBe(true);
+    expect(boostingParamsSchema.safeParse({ nEstimators: 10, learningRate: 1, maxDepth: 2, minSamplesLeaf: 1 }).success).toBe(true);
+  });
+
+  it.each([
+    { nEstimators: 0 },
+    { nEstimators: MAX_BOOSTING_PARAMS.nEstimators + 1 },
+    { maxDepth: 2.5 },
+    { maxDepth: MAX_BOOSTING_PARAMS.maxDepth + 1 },
+    { minSamplesLeaf: -1 },
+    { learningRate: 0 },
+    { learningRate: 1.5 },
+    { subsample: 0.5 },
+  ])("rejects %o", (params) => {
+    expect(boostingParamsSchema.safeParse(params).success).toBe(false);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Gradient-Boosted Regression Trees
+ *
+ * Pure TypeScript least-squares boosting over shallow CART trees. Deterministic:
+ * no row or column subsampling, so the same records always produce the same
+ * trees. Trees are plain JSON and are stored as the model artifact on pattern_models.
+ */
+
+import { z } from "zod";
+
+export interface BoostingParams {
+  nEstimators: number;
+  learningRate: number;
+  maxDepth: number;
+  minSamplesLeaf: number;
+}
+
+// `mean` on split nodes is the mean residual reaching that node. It is not
+// needed to predict, only to attribute a prediction to features along its path.
+export type TreeNode =
+  | { value: number }
+  | { feature: number; threshold: number; mean?: number; left: TreeNode; right: TreeNode };
+
+export interface BoostedTreesArtifact {
+  baseScore: number;
+  learningRate: number;
+  trees: TreeNode[];
+}
+
+export const DEFAULT_BOOSTING_PARAMS: BoostingParams = {
+  nEstimators: 100,
+  learningRate: 0.1,
+  maxDepth: 3,
+  minSamplesLeaf: 2,
+};
+
+// Training fits the model once, then again for each bootstrap ensemble member,
+// walk-forward fold and learning-curve point, so caps here bound a whole run.
+export const MAX_BOOSTING_PARAMS = {
+  nEstimators: 500,
+  maxDepth: 6,
+  minSamplesLeaf: 1000,
+};
+
+/** Request-supplied overrides; omitted fields fall back to DEFAULT_BOOSTING_PARAMS. */
+export const boostingParamsSchema = z
+  .object({
+    nEstimators: z.number().int().positive().max(MAX_BOOSTING_PARAMS.nEstimators),
+    learningRate: z.number().gt(0).max(1),
+    maxDepth: z.number().int().positive().max(MAX_BOOSTING_PARAMS.maxDepth),
+    minSamplesLeaf: z.number().int().positive().max(MAX_BOOSTING_PARAMS.minSamplesLeaf),
+  })
+  .partial()
+  .strict();
+
+interface SplitCandidate {
+  feature: number;
+  threshold: number;
+  gain: number;
+  leftIdx: number[];
+  rightIdx: number[];
+}
+
+function mean(values: number[], idx: number[]): number {
+  let sum = 0;
+  for (const i of idx) sum += values[i];
+  return idx.length > 0 ? sum / idx.length : 0;
+}
+
+/**
+ * Finds the split that most reduces squared error, scanning each feature's
+ * sorted values once with running sums.
+ */
+function findBestSplit(X: number[][], residuals: number[], idx: number[], minSamplesLeaf: number): SplitCandidate | null {
+  const n = idx.length;
+  if (n < 2 * minSamplesLeaf) return null;
+
+  let totalSum = 0;
+  for (const i of idx) totalSum += residuals[i];
+  const parentScore = (totalSum * totalSum) / n;
+
+  const featureCount = X[idx[0]].length;
+  let best: { feature: number; threshold: number; gain: number; position: number; order: number[] } | null = null;
+
+  for (let f = 0; f < featureCount; f++) {
+    const order = [...idx].sort((a, b) => X[a][f] - X[b][f]);
+    let leftSum = 0;
+
+    for (let k = 0; k < n - 1; k++) {
+      leftSum += residuals[order[k]];
+      const leftCount = k + 1;
+      const rightCount = n - leftCount;
+      if (leftCount < minSamplesLeaf || rightCount < minSamplesLeaf) continue;
+
+      const current = X[order[k]][f];
+      const next = X[order[k + 1]][f];
+      if (current === next) continue;
+
+      const rightSum = totalSum - leftSum;
+      const gain = (leftSum * leftSum) / leftCount + (rightSum * rightSum) / rightCount - parentScore;
+      if (gain > 1e-12 && (!best || gain > best.gain)) {
+        best = { feature: f, threshold: (current + next) / 2, gain, position: k + 1, order };
+      }
+    }
+  }
+
+  if (!best) return null;
+  return {
+    feature: best.feature,
+    threshold: best.threshold,
+    gain: best.gain,
+    leftIdx: best.order.slice(0, best.position),
+    rightIdx: best.order.slice(best.position),
+  };
+}
+
+function buildTree(
+  X: number[][],
+  residuals: number[],
+  idx: number[],
+  depth: number,
+  params: BoostingParams
+): TreeNode {
+  if (depth >= params.maxDepth) {
+    return { value: mean(residuals, idx) };
+  }
+
+  const split = findBestSplit(X, residuals, idx, params.minSamplesLeaf);
+  if (!split) {
+    return { value: mean(residuals, idx) };
+  }
+
+  return {
+    feature: split.feature,
+    threshold: split.threshold,
+    mean: mean(residuals, idx),
+    left: buildTree(X, residuals, split.leftIdx, depth + 1, params),
+    right: buildTree(X, residuals, split.rightIdx, depth + 1, params),
+  };
+}
+
+export function predictTree(node: TreeNode, x: number[]): number {
+  let current = node;
+  while (!("value" in current)) {
+    current = (x[current.feature] ?? 0) <= current.threshold ? current.left : current.right;
+  }
+  return current.value;
+}
+
+export function predictBoostedTrees(artifact: BoostedTreesArtifact, x: number[]): number {
+  let result = artifact.baseScore;
+  for (const tree of artifact.trees) {
+    result += artifact.learningRate * predictTree(tree, x);
+  }
+  return result;
+}
+
+function nodeMean(node: TreeNode): number | undefined {
+  return "value" in node ? node.value : node.mean;
+}
+
+/**
+ * Path attribution (Saabas): walking a tree, each split's change in node mean
+ * is credited to the split feature. Contributions plus baseValue equal the
+ * prediction exactly. Returns null for artifacts trained before node means
+ * were recorded.
+ */
+export function explainBoostedTrees(
+  artifact: BoostedTreesArtifact,
+  x: number[],
+  featureCount: number
+): { baseValue: number; contributions: number[] } | null {
+  const contributions = new Array(featureCount).fill(0);
+  let baseValue = artifact.baseScore;
+
+  for (const tree of artifact.trees) {
+    let current = tree;
+    const rootMean = nodeMean(current);
+    if (rootMean === undefined) return null;
+    baseValue += artifact.learningRate * rootMean;
+
+    while (!("value" in current)) {
+      const parentMean = current.mean;
+      const next: TreeNode = (x[current.feature] ?? 0) <= current.threshold ? current.left : current.right;
+      const childMean = nodeMean(next);
+      if (parentMean === undefined || childMean === undefined) return null;
+      contributions[current.feature] += artifact.learningRate * (childMean - parentMean);
+      current = next;
+    }
+  }
+
+  return { baseValue, contributions };
+}
+
+export function trainBoostedTrees(
+  X: number[][],
+  y: number[],
+  overrides: Partial<BoostingParams> = {}
+): BoostedTreesArtifact {
+  const params: BoostingParams = { ...DEFAULT_BOOSTING_PARAMS, ...overrides };
+  const n = y.length;
+  const baseScore = n > 0 ? y.reduce((sum, v) => sum + v, 0) / n : 0;
+  const artifact: BoostedTreesArtifact = { baseScore, learningRate: params.learningRate, trees: [] };
+  if (n === 0) return artifact;
+
+  const allIdx = y.map((_, i) => i);
+  const current = new Array(n).fill(baseScore);
+
+  for (let t = 0; t < params.nEstimators; t++) {
+    const residuals = y.map((v, i) => v - current[i]);
+    const tree = buildTree(X, residuals, allIdx, 0, params);
+    if ("value" in tree && Math.abs(tree.value) < 1e-12) break;
+
+    artifact.trees.push(tree);
+    for (let i = 0; i < n; i++) {
+      current[i] += params.learningRate * predictTree(tree, X[i]);
+    }
+  }
+
+  return artifact;
+}
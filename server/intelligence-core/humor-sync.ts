@@ -0,0 +1,140 @@
+import { db } from "../db";
+import { datasets, datasetRecords, humorPerformance, type Dataset, type HumorPerformance } from "@shared/schema";
+import { eq, and, asc, sql } from "drizzle-orm";
+import { extractFeaturesForRecord } from "./feature-engineering";
+import { classifyTier, type TierThresholds } from "./model-training";
+import { syncDatasetRecordCount } from "./record-ingestion";
+import { resolveDatasetTierThresholds, reclassifyDatasetRecords } from "./tier-config";
+
+// ============================================================================
+// Humor Screener -> Dataset Record Sync
+// ============================================================================
+
+export const HUMOR_PERFORMANCE_SOURCE_TYPE = "humor_performance";
+const VIDEO_ADS_DATASET_TYPE = "video_ads";
+
+export type SyncOutcome = "created" | "updated" | "unchanged" | "skipped";
+
+export interface BackfillResult {
+  datasetId: string;
+  processed: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  recordCount: number;
+}
+
+/**
+ * Returns the oldest active video_ads dataset, creating one on first use so
+ * performance entries logged before anyone set up a dataset aren't lost.
+ * engagementRate is a percentage, so the created dataset tiers by quantile
+ * rather than the default 0.3 / 0.7 cut-offs. The advisory lock keeps two
+ * concurrent first saves from each creating a dataset.
+ */
+export async function getOrCreateVideoAdsDataset(): Promise<Dataset> {
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`dataset_type:${VIDEO_ADS_DATASET_TYPE}`}))`);
+    const [existing] = await tx
+      .select()
+      .from(datasets)
+      .where(and(eq(datasets.datasetType, VIDEO_ADS_DATASET_TYPE), eq(datasets.isActive, true)))
+      .orderBy(asc(datasets.createdAt))
+      .limit(1);
+
+    if (existing) return existing;
+
+    const [created] = await tx
+      .insert(datasets)
+      .values({
+        name: "Humor Screener Performance",
+        datasetType: VIDEO_ADS_DATASET_TYPE,
+        description: "Auto-populated from Humor Screener performance entries",
+        targetMetricName: "engagement_rate",
+        tierConfig: { mode: "quantile", lowQuantile: 0.3, topQuantile: 0.7 },
+      })
+      .returning();
+
+    return created;
+  });
+}
+
+async function upsertPerformanceRecord(
+  dataset: Dataset,
+  performance: HumorPerformance,
+  thresholds: TierThresholds
+): Promise<SyncOutcome> {
+  const extracted = extractFeaturesForRecord(dataset.datasetType, performance);
+  if (!extracted || !Number.isFinite(extracted.target)) {
+    return "skipped";
+  }
+
+  const sourceId = String(performance.id);
+  const rawFeatures = JSON.parse(JSON.stringify(performance));
+  const tierClassification = classifyTier(extracted.target, thresholds);
+
+  // Atomic upsert on (datasetId, sourceType, sourceId), so concurrent saves of
+  // the same performance row can't create duplicates. Unchanged rows are left
+  // alone and return nothing; xmax = 0 tells a fresh insert from an update.
+  const [row] = await db
+    .insert(datasetRecords)
+    .values({
+      datasetId: dataset.id,
+      sourceId,
+      sourceType: HUMOR_PERFORMANCE_SOURCE_TYPE,
+      rawFeatures,
+      targetValue: extracted.target,
+      tierClassification,
+      isActive: true,
+      createdAt: performance.publishedAt ?? performance.createdAt ?? new Date(),
+    })
+    .onConflictDoUpdate({
+      target: [datasetRecords.datasetId, datasetRecords.sourceType, datasetRecords.sourceId],
+      set: { rawFeatures, targetValue: extracted.target, tierClassification },
+      setWhere: sql`${datasetRecords.targetValue} is distinct from excluded.target_value or ${datasetRecords.rawFeatures} is distinct from excluded.raw_features`,
+    })
+    .returning({ inserted: sql<boolean>`(xmax = 0)` });
+
+  if (!row) return "unchanged";
+  return row.inserted ? "created" : "updated";
+}
+
+/**
+ * Mirrors a single humor_performance row into the video_ads dataset. Safe to
+ * call on every create/update: the record is matched by sourceId/sourceType.
+ */
+export async function syncHumorPerformance(performance: HumorPerformance): Promise<{ datasetId: string; outcome: SyncOutcome }> {
+  const dataset = await getOrCreateVideoAdsDataset();
+  const thresholds = await resolveDatasetTierThresholds(dataset);
+  const outcome = await upsertPerformanceRecord(dataset, performance, thresholds);
+
+  if (outcome === "created" || outcome === "updated") {
+    await reclassifyDatasetRecords(dataset);
+    await syncDatasetRecordCount(dataset.id);
+  }
+
+  return { datasetId: dataset.id, outcome };
+}
+
+export async function backfillHumorPerformance(): Promise<BackfillResult> {
+  const dataset = await getOrCreateVideoAdsDataset();
+  const rows = await db.select().from(humorPerformance).orderBy(asc(humorPerformance.createdAt));
+
+  const thresholds = await resolveDatasetTierThresholds(dataset);
+  const counts: Record<SyncOutcome, number> = { created: 0, updated: 0, unchanged: 0, skipped: 0 };
+  for (const row of rows) {
+    counts[await upsertPerformanceRecord(dataset, row, thresholds)]++;
+  }
+
+  if (counts.created > 0 || counts.updated > 0) {
+    await reclassifyDatasetRecords(dataset);
+  }
+  const recordCount = await syncDatasetRecordCount(dataset.id);
+
+  return {
+    datasetId: dataset.id,
+    processed: rows.length,
+    ...counts,
+    recordCount,
+  };
+}
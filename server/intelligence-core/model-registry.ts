@@ -0,0 +1,173 @@
+import { db } from "../db";
+import { datasets, patternModels, type PatternModel, type InsertPatternModel } from "@shared/schema";
+import { eq, and, desc, ne, isNotNull, sql } from "drizzle-orm";
+import { recordChampionImportance } from "./feature-store";
+
+// ============================================================================
+// Model Registry
+// ============================================================================
+//
+// Every training run registers a new version per dataset. Exactly one version
+// per dataset is the champion and serves predictions; new versions start as
+// candidates and only replace the champion through an explicit promotion.
+// Each new champion's feature importances are published to engineered_features.
+
+export type ModelStatus = "candidate" | "champion" | "archived";
+
+export class ModelRegistryError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "ModelRegistryError";
+  }
+}
+
+export async function listModelVersions(datasetId: string): Promise<PatternModel[]> {
+  return db
+    .select()
+    .from(patternModels)
+    .where(eq(patternModels.datasetId, datasetId))
+    .orderBy(desc(patternModels.version));
+}
+
+export async function getChampionModel(datasetId: string): Promise<PatternModel | undefined> {
+  const [champion] = await db
+    .select()
+    .from(patternModels)
+    .where(and(eq(patternModels.datasetId, datasetId), eq(patternModels.status, "champion")))
+    .orderBy(desc(patternModels.promotedAt))
+    .limit(1);
+  return champion;
+}
+
+/**
+ * Champion of the most recently promoted dataset of the given type. Used by
+ * hooks (e.g. script generation) that know the kind of data but not the dataset.
+ */
+export async function getChampionForDatasetType(datasetType: string): Promise<PatternModel | undefined> {
+  const [row] = await db
+    .select({ model: patternModels })
+    .from(patternModels)
+    .innerJoin(datasets, eq(datasets.id, patternModels.datasetId))
+    .where(and(eq(datasets.datasetType, datasetType), eq(datasets.isActive, true), eq(patternModels.status, "champion")))
+    .orderBy(desc(patternModels.promotedAt))
+    .limit(1);
+  return row?.model;
+}
+
+/**
+ * Inserts a trained model as the dataset's next version. The first model a
+ * dataset ever gets becomes champion so predictions work out of the box;
+ * every later one is a candidate until promoted.
+ */
+export async function registerModel(
+  values: Omit<InsertPatternModel, "version" | "status" | "promotedAt">
+): Promise<PatternModel> {
+  return db.transaction(async (tx) => {
+    // Serializes registrations (and promotions) per dataset, so two concurrent
+    // runs can't claim the same version or both become champion.
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`model_registry:${values.datasetId}`}))`);
+    const [{ maxVersion }] = await tx
+      .select({ maxVersion: sql<number | null>`max(${patternModels.version})` })
+      .from(patternModels)
+      .where(eq(patternModels.datasetId, values.datasetId));
+
+    const [champion] = await tx
+      .select({ id: patternModels.id })
+      .from(patternModels)
+      .where(and(eq(patternModels.datasetId, values.datasetId), eq(patternModels.status, "champion")))
+      .limit(1);
+
+    const [model] = await tx
+      .insert(patternModels)
+      .values({
+        ...values,
+        version: Number(maxVersion ?? 0) + 1,
+        status: champion ? "candidate" : "champion",
+        promotedAt: champion ? null : new Date(),
+      })
+      .returning();
+
+    if (model.status === "champion") await recordChampionImportance(model, tx);
+    return model;
+  });
+}
+
+// Archives the current champion and promotes `modelId` in its place. Callers
+// hold the dataset's registry lock.
+async function replaceChampion(
+  executor: Pick<typeof db, "select" | "insert" | "update">,
+  datasetId: string,
+  modelId: string
+): Promise<{ champion: PatternModel; archived: PatternModel | null }> {
+  const [target] = await executor
+    .select()
+    .from(patternModels)
+    .where(and(eq(patternModels.id, modelId), eq(patternModels.datasetId, datasetId)))
+    .limit(1);
+
+  if (!target) throw new ModelRegistryError("Model not found for this dataset", 404);
+  if (target.status === "champion") throw new ModelRegistryError("Model is already the champion", 409);
+
+  const [archived] = await executor
+    .update(patternModels)
+    .set({ status: "archived" })
+    .where(and(eq(patternModels.datasetId, datasetId), eq(patternModels.status, "champion")))
+    .returning();
+
+  const [champion] = await executor
+    .update(patternModels)
+    .set({ status: "champion", promotedAt: new Date() })
+    .where(eq(patternModels.id, modelId))
+    .returning();
+
+  await recordChampionImportance(champion, executor);
+  return { champion, archived: archived ?? null };
+}
+
+export async function promoteModel(datasetId: string, modelId: string): Promise<{ champion: PatternModel; archived: PatternModel | null }> {
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`model_registry:${datasetId}`}))`);
+    return replaceChampion(tx, datasetId, modelId);
+  });
+}
+
+/**
+ * Restores the champion that preceded the current one (the most recently
+ * promoted archived version), or a specific version when one is given. The
+ * previous champion is looked up under the same lock as the swap, so a
+ * concurrent promotion can't change it in between.
+ */
+export async function rollbackModel(datasetId: string, toModelId?: string): Promise<{ champion: PatternModel; archived: PatternModel | null }> {
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`model_registry:${datasetId}`}))`);
+
+    let targetId = toModelId;
+    if (!targetId) {
+      const [current] = await tx
+        .select({ id: patternModels.id })
+        .from(patternModels)
+        .where(and(eq(patternModels.datasetId, datasetId), eq(patternModels.status, "champion")))
+        .orderBy(desc(patternModels.promotedAt))
+        .limit(1);
+
+      const conditions = [
+        eq(patternModels.datasetId, datasetId),
+        eq(patternModels.status, "archived"),
+        isNotNull(patternModels.promotedAt),
+      ];
+      if (current) conditions.push(ne(patternModels.id, current.id));
+
+      const [previous] = await tx
+        .select()
+        .from(patternModels)
+        .where(and(...conditions))
+        .orderBy(desc(patternModels.promotedAt))
+        .limit(1);
+
+      if (!previous) throw new ModelRegistryError("No previous champion to roll back to", 409);
+      targetId = previous.id;
+    }
+
+    return replaceChampion(tx, datasetId, targetId);
+  });
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { LAMBDA_GRID, selectLambda, splitData, timeSeriesFolds, trainModel, walkForwardValidate, type FoldInputs } from "./model-training";
+import { createSeededRandom } from "./random";
+
+// y = 3 + 2·signal + small noise; the other columns are pure noise.
+function records(n: number, seed: number = 1) {
+  const rng = createSeededRandom(seed);
+  return Array.from({ length: n }, (_, i) => {
+    const signal = rng.next() * 2 - 1;
+    return {
+      normalizedFeatures: { signal, noiseA: rng.next() * 2 - 1, noiseB: rng.next() * 2 - 1 },
+      targetValue: 3 + 2 * signal + (rng.next() - 0.5) * 0.1,
+      createdAt: new Date(Date.UTC(2026, 0, 1, 0, i)),
+    };
+  });
+}
+
+function coefficient(result: ReturnType<typeof trainModel>, name: string): number {
+  return result.coefficients[result.featureNames.indexOf(name)];
+}
+
+describe("splitData", () => {
+  it("orders rows by time and cuts the newest off as the test split", () => {
+    const rows = [3, 1, 4, 2, 0].map((minute) => ({ minute, createdAt: new Date(Date.UTC(2026, 0, 1, 0, minute)) }));
+    const { train, test } = splitData(rows);
+    expect(train.map((r) => r.minute)).toEqual([0, 1, 2, 3]);
+    expect(test.map((r) => r.minute)).toEqual([4]);
+  });
+});
+
+describe("timeSeriesFolds", () => {
+  it("grows the training window and never validates on earlier rows", () => {
+    expect(timeSeriesFolds(10, 3, 4)).toEqual([
+      { trainEnd: 4, testEnd: 6 },
+      { trainEnd: 6, testEnd: 8 },
+      { trainEnd: 8, testEnd: 10 },
+    ]);
+    expect(timeSeriesFolds(4, 3, 4)).toEqual([]);
+  });
+});
+
+describe("walkForwardValidate", () => {
+  it("prepares every fold from its own training prefix", () => {
+    const data = records(50);
+    const calls: Array<[number, number]> = [];
+    const foldInputs: FoldInputs = (trainEnd, testEnd) => {
+      calls.push([trainEnd, testEnd]);
+      // Stands in for preprocessing refit on the prefix, which can produce
+      // fewer columns than the full training split.
+      const strip = (r: (typeof data)[number]) => ({ ...r, normalizedFeatures: { signal: r.normalizedFeatures.signal } });
+      return { train: data.slice(0, trainEnd).map(strip), test: data.slice(trainEnd, testEnd).map(strip) };
+    };
+
+    const result = walkForwardValidate(data, ["noiseA", "noiseB", "signal"], {}, 3, foldInputs);
+
+    expect(calls).toEqual(timeSeriesFolds(50, 3, 20).map(({ trainEnd, testEnd }) => [trainEnd, testEnd]));
+    expect(result.folds.map((f) => f.trainSize)).toEqual([20, 30, 40]);
+    expect(result.aggregate.rSquared).toBeGreaterThan(0.99);
+  });
+
+  it("reuses the records' own inputs without foldInputs", () => {
+    const data = records(50);
+    const result = walkForwardValidate(data, ["noiseA", "noiseB", "signal"], {}, 3);
+    expect(result.folds).toHaveLength(3);
+    expect(result.aggregate.rSquared).toBeGreaterThan(0.99);
+  });
+});
+
+describe("lasso", () => {
+  it("recovers the signal and shrinks noise coefficients to exactly zero", () => {
+    const result = trainModel("dataset", records(200), { modelType: "lasso", lambda: 0.05, validationMode: "holdout" });
+
+    expect(coefficient(result, "signal")).toBeGreaterThan(1.8);
+    expect(Math.abs(coefficient(result, "noiseA"))).toBe(0);
+    expect(Math.abs(coefficient(result, "noiseB"))).toBe(0);
+    expect(result.intercept).toBeCloseTo(3, 1);
+  });
+
+  it("zeroes every coefficient once lambda passes the largest correlation", () => {
+    const result = trainModel("dataset", records(200), { modelType: "lasso", lambda: 10, validationMode: "holdout" });
+    expect(result.coefficients.map(Math.abs)).toEqual([0, 0, 0]);
+  });
+
+  it("matches least squares at lambda 0", () => {
+    const data = records(200);
+    const lasso = trainModel("dataset", data, { modelType: "lasso", lambda: 0, validationMode: "holdout" });
+    const ols = trainModel("dataset", data, { modelType: "multivariate_regression", validationMode: "holdout" });
+    lasso.coefficients.forEach((c, i) => expect(c).toBeCloseTo(ols.coefficients[i], 4));
+  });
+});
+
+describe("selectLambda", () => {
+  it("scores the whole grid by time-ordered validation and keeps the best", () => {
+    const data = records(120);
+    const X = data.map((r) => [r.normalizedFeatures.signal, r.normalizedFeatures.noiseA, r.normalizedFeatures.noiseB]);
+    const y = data.map((r) => r.targetValue);
+    const { lambda, search } = selectLambda("lasso", X, y);
+
+    expect(search.map((s) => s.lambda)).toEqual(LAMBDA_GRID);
+    expect(search.find((s) => s.lambda === lambda)!.cvMse).toBe(Math.min(...search.map((s) => s.cvMse)));
+    // Heavy penalties wipe out the signal, so they can't win.
+    expect(lambda).toBeLessThan(0.3);
+  });
+
+  it("falls back to the middle of the grid without enough rows to fold", () => {
+    expect(selectLambda("ridge", [[1], [2], [3]], [1, 2, 3])).toEqual({ lambda: LAMBDA_GRID[4], search: [] });
+  });
+});
+
+describe("ridge fallback", () => {
+  it("adds a small penalty when columns are collinear", () => {
+    const data = records(60).map((r) => ({
+      ...r,
+      normalizedFeatures: { ...r.normalizedFeatures, copy: r.normalizedFeatures.signal },
+    }));
+    const result = trainModel("dataset", data, { validationMode: "holdout" });
+
+    expect(result.hyperparameters.rankDeficient).toBe(true);
+    expect(result.hyperparameters.lambda).toBe(LAMBDA_GRID[0]);
+    expect(coefficient(result, "signal") + coefficient(result, "copy")).toBeCloseTo(2, 1);
+  });
+});
@@ -1,10 +1,49 @@
-interface DatasetRecord {
+import { quantile } from "./feature-engineering";
+import { mulberry32 } from "./random";
+import { trainBoostedTrees, predictBoostedTrees, explainBoostedTrees, DEFAULT_BOOSTING_PARAMS, type BoostingParams, type BoostedTreesArtifact } from "./gradient-boosting";
+
+export interface DatasetRecord {
   normalizedFeatures: Record<string, number>;
   targetValue: number;
   createdAt: Date | string | null;
 }
 
+export const MODEL_TYPES = ["multivariate_regression", "ridge", "lasso", "gradient_boosted_trees"] as const;
+export type ModelType = (typeof MODEL_TYPES)[number];
+
+export function isModelType(value: unknown): value is ModelType {
+  return typeof value === "string" && (MODEL_TYPES as readonly string[]).includes(value);
+}
+
+export type ValidationMode = "holdout" | "walk_forward";
+
+export interface TrainOptions {
+  modelType?: ModelType;
+  lambda?: number;
+  boosting?: Partial<BoostingParams>;
+  validationMode?: ValidationMode;
+  cvFolds?: number;
+  tierThresholds?: TierThresholds;
+  /** Rebuilds each walk-forward fold's inputs from raw rows; indexes follow splitData's time order. */
+  foldInputs?: FoldInputs;
+}
+
+/**
+ * Prepares one walk-forward fold: preprocessing is fit on rows [0, trainEnd)
+ * of the records in time order and applied to rows [trainEnd, testEnd), so a
+ * fold never sees encoders or scaling that rows after its cut contributed to.
+ */
+export type FoldInputs = (trainEnd: number, testEnd: number) => { train: DatasetRecord[]; test: DatasetRecord[] };
+
+export interface LambdaSearchResult {
+  lambda: number;
+  cvMse: number;
+}
+
 interface TrainResult {
+  modelType: ModelType;
+  hyperparameters: { lambda?: number; lambdaSearch?: LambdaSearchResult[]; boosting?: BoostingParams; rankDeficient?: boolean };
+  artifact: BoostedTreesArtifact | null;
   coefficients: number[];
   intercept: number;
   featureNames: string[];
@@ -14,6 +53,11 @@ interface TrainResult {
   directionalAccuracy: number;
   trainSampleCount: number;
   testSampleCount: number;
+  crossValidation: CrossValidationResult | null;
+  learningCurve: LearningCurveResult | null;
+  uncertainty: UncertaintyArtifact | null;
+  featureImportance: FeatureImportance[];
+  tierThresholds: TierThresholds;
 }
 
 type Matrix = number[][];
@@ -49,8 +93,13 @@ function matrixMultiply(a: Matrix, b: Matrix): Matrix {
   return result;
 }
 
-function matrixInverse(a: Matrix): Matrix {
+// Pivots below this fraction of the largest entry are treated as zero.
+const SINGULAR_TOLERANCE = 1e-10;
+
+/** Gauss-Jordan inverse, or null when the matrix is singular to working precision. */
+function matrixInverse(a: Matrix): Matrix | null {
   const n = a.length;
+  const scale = Math.max(0, ...a.map((row) => Math.max(0, ...row.map(Math.abs))));
   const augmented: Matrix = [];
   for (let i = 0; i < n; i++) {
     augmented[i] = [...a[i]];
@@ -70,12 +119,8 @@ function matrixInverse(a: Matrix): Matrix {
       }
     }
 
-    if (maxVal < 1e-12) {
-      for (let i = 0; i < n; i++) {
-        augmented[col][col + n + i] = 0;
-      }
-      augmented[col][col] = 1;
-      continue;
+    if (maxVal <= SINGULAR_TOLERANCE * scale) {
+      return null;
     }
 
     if (maxRow !== col) {
@@ -103,10 +148,10 @@ function matrixInverse(a: Matrix): Matrix {
   return inverse;
 }
 
-export function splitData(
-  records: DatasetRecord[],
+export function splitData<T extends { createdAt: Date | string | null }>(
+  records: T[],
   trainRatio: number = 0.8
-): { train: DatasetRecord[]; test: DatasetRecord[] } {
+): { train: T[]; test: T[] } {
   const sorted = [...records].sort((a, b) => {
     const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
     const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
@@ -120,12 +165,102 @@ export function splitData(
   };
 }
 
-export function classifyTier(value: number): string {
-  if (value > 0.7) return "top";
-  if (value < 0.3) return "low";
+// ============================================================================
+// Tier Thresholds
+// ============================================================================
+
+export interface TierThresholds {
+  low: number;
+  top: number;
+}
+
+/**
+ * Stored on datasets.tier_config. Fixed thresholds are in target units;
+ * quantile thresholds are resolved against the dataset's historical targets
+ * and frozen onto each model at training time.
+ */
+export type TierConfig =
+  | { mode: "fixed"; low: number; top: number }
+  | { mode: "quantile"; lowQuantile: number; topQuantile: number };
+
+export const DEFAULT_TIER_THRESHOLDS: TierThresholds = { low: 0.3, top: 0.7 };
+
+export function parseTierConfig(value: unknown): TierConfig | string {
+  if (!value || typeof value !== "object") return "tierConfig must be an object";
+  const config = value as Record<string, unknown>;
+
+  if (config.mode === "fixed") {
+    const low = Number(config.low);
+    const top = Number(config.top);
+    if (!Number.isFinite(low) || !Number.isFinite(top)) return "low and top must be numbers";
+    if (low >= top) return "low must be below top";
+    return { mode: "fixed", low, top };
+  }
+
+  if (config.mode === "quantile") {
+    const lowQuantile = Number(config.lowQuantile);
+    const topQuantile = Number(config.topQuantile);
+    const inRange = (q: number) => Number.isFinite(q) && q > 0 && q < 1;
+    if (!inRange(lowQuantile) || !inRange(topQuantile)) return "lowQuantile and topQuantile must be between 0 and 1";
+    if (lowQuantile >= topQuantile) return "lowQuantile must be below topQuantile";
+    return { mode: "quantile", lowQuantile, topQuantile };
+  }
+
+  return "mode must be fixed or quantile";
+}
+
+export function resolveTierThresholds(config: TierConfig | null | undefined, targets: number[]): TierThresholds {
+  if (!config) return DEFAULT_TIER_THRESHOLDS;
+  if (config.mode === "fixed") return { low: config.low, top: config.top };
+
+  const sorted = targets.filter((v) => Number.isFinite(v)).sort((a, b) => a - b);
+  if (sorted.length === 0) return DEFAULT_TIER_THRESHOLDS;
+  return { low: quantile(sorted, config.lowQuantile), top: quantile(sorted, config.topQuantile) };
+}
+
+/** Thresholds frozen on a model row; models trained before tiers were configurable use the defaults. */
+export function loadTierThresholds(value: unknown): TierThresholds {
+  const stored = value as Partial<TierThresholds> | null;
+  if (stored && typeof stored.low === "number" && typeof stored.top === "number") {
+    return { low: stored.low, top: stored.top };
+  }
+  return DEFAULT_TIER_THRESHOLDS;
+}
+
+export function classifyTier(value: number, thresholds: TierThresholds = DEFAULT_TIER_THRESHOLDS): string {
+  if (value > thresholds.top) return "top";
+  if (value < thresholds.low) return "low";
   return "mid";
 }
 
+export interface PredictionOutcome {
+  error: number;
+  absoluteError: number;
+  directionallyCorrect: boolean;
+  actualTier: string;
+  tierCorrect: boolean;
+}
+
+/**
+ * Scores a single prediction against its realized value. Shared by snapshot
+ * validation and shadow (challenger) validation so both are judged identically.
+ */
+export function scorePredictionOutcome(
+  predicted: number,
+  predictedTier: string | null,
+  actualValue: number,
+  thresholds: TierThresholds = DEFAULT_TIER_THRESHOLDS
+): PredictionOutcome {
+  const error = predicted - actualValue;
+  const absoluteError = Math.abs(error);
+  // Direction is judged against the middle of the mid tier (0.5 with the default thresholds).
+  const midpoint = (thresholds.low + thresholds.top) / 2;
+  const directionallyCorrect = (predicted >= midpoint && actualValue >= midpoint) || (predicted < midpoint && actualValue < midpoint);
+  const actualTier = classifyTier(actualValue, thresholds);
+  const tierCorrect = (predictedTier || classifyTier(predicted, thresholds)) === actualTier;
+  return { error, absoluteError, directionallyCorrect, actualTier, tierCorrect };
+}
+
 export function predict(
   coefficients: number[],
   intercept: number,
@@ -138,104 +273,314 @@ export function predict(
   return result;
 }
 
-export function trainModel(
-  datasetId: string,
-  records: DatasetRecord[]
-): TrainResult {
-  if (records.length < 3) {
+// ============================================================================
+// Common Model Interface
+// ============================================================================
+
+/**
+ * Everything downstream of training (prediction, snapshots, optimization)
+ * scores through this interface instead of assuming a coefficient array.
+ * `parameters` is what gets recorded on a snapshot as coefficientsUsed.
+ */
+export interface ScoringModel {
+  modelType: ModelType;
+  featureNames: string[];
+  parameters: unknown;
+  predict(featureVector: number[]): number;
+  /** Additive breakdown: baseValue + Σ contributions = predict(featureVector). */
+  explain(featureVector: number[]): PredictionExplanation | null;
+}
+
+export interface PredictionExplanation {
+  baseValue: number;
+  contributions: number[];
+}
+
+export interface ModelSpec {
+  modelType: string | null;
+  featureNames: unknown;
+  coefficients: unknown;
+  intercept: number | null;
+  modelArtifact?: unknown;
+}
+
+export function loadScoringModel(spec: ModelSpec): ScoringModel {
+  const modelType = isModelType(spec.modelType) ? spec.modelType : "multivariate_regression";
+  const featureNames = (spec.featureNames as string[]) || [];
+
+  if (modelType === "gradient_boosted_trees") {
+    const artifact = spec.modelArtifact as BoostedTreesArtifact | null;
+    if (!artifact || !Array.isArray(artifact.trees)) {
+      throw new Error("Gradient-boosted model is missing its serialized trees");
+    }
     return {
-      coefficients: [],
-      intercept: 0,
-      featureNames: [],
-      rSquared: 0,
-      mae: 0,
-      tierAccuracy: 0,
-      directionalAccuracy: 0,
-      trainSampleCount: 0,
-      testSampleCount: 0,
+      modelType,
+      featureNames,
+      parameters: artifact,
+      predict: (featureVector) => predictBoostedTrees(artifact, featureVector),
+      explain: (featureVector) => explainBoostedTrees(artifact, featureVector, featureNames.length),
     };
   }
 
-  const { train, test } = splitData(records);
+  const coefficients = (spec.coefficients as number[]) || [];
+  const intercept = spec.intercept ?? 0;
+  return {
+    modelType,
+    featureNames,
+    parameters: coefficients,
+    predict: (featureVector) => predict(coefficients, intercept, featureVector),
+    explain: (featureVector) => ({
+      baseValue: intercept,
+      contributions: coefficients.map((c, i) => c * (featureVector[i] ?? 0)),
+    }),
+  };
+}
 
-  if (train.length === 0 || test.length === 0) {
-    return {
-      coefficients: [],
-      intercept: 0,
-      featureNames: [],
-      rSquared: 0,
-      mae: 0,
-      tierAccuracy: 0,
-      directionalAccuracy: 0,
-      trainSampleCount: train.length,
-      testSampleCount: test.length,
-    };
+// ============================================================================
+// Linear Learners
+// ============================================================================
+
+interface LinearFit {
+  intercept: number;
+  coefficients: number[];
+  /** Ridge penalty actually applied; above the requested one when the system was singular. */
+  lambda?: number;
+}
+
+export const LAMBDA_GRID = [0.0001, 0.0003, 0.001, 0.003, 0.01, 0.03, 0.1, 0.3, 1];
+
+/**
+ * Inverts A = XᵀX + nλD, where D leaves the intercept unpenalized. Collinear
+ * or constant columns, or fewer rows than features, make A singular; rather
+ * than guess at the dropped directions, the penalty is raised from the
+ * smallest grid value until A inverts.
+ */
+function invertNormalMatrix(XtX: Matrix, n: number, lambda: number): { inverse: Matrix; lambda: number } {
+  let applied = lambda;
+  while (true) {
+    const A = XtX.map((row) => [...row]);
+    for (let i = 1; i < A.length; i++) {
+      A[i][i] += applied * n;
+    }
+    const inverse = matrixInverse(A);
+    if (inverse) return { inverse, lambda: applied };
+
+    if (applied >= LAMBDA_GRID[LAMBDA_GRID.length - 1]) {
+      throw new Error("Normal equations are singular even with a ridge penalty; check for non-finite or extreme feature values");
+    }
+    applied = applied < LAMBDA_GRID[0] ? LAMBDA_GRID[0] : applied * 10;
   }
+}
 
-  const featureNames = Object.keys(train[0].normalizedFeatures).sort();
-  const numFeatures = featureNames.length;
+/**
+ * Solves (XᵀX + nλD)β = Xᵀy. With lambda = 0 this is the plain normal
+ * equation, falling back to a small ridge penalty when it is rank deficient.
+ */
+function fitRidge(X: Matrix, y: number[], lambda: number): LinearFit {
+  const design: Matrix = X.map((row) => [1, ...row]);
+  const Xt = matrixTranspose(design);
+  const XtX = matrixMultiply(Xt, design);
+  const { inverse, lambda: applied } = invertNormalMatrix(XtX, X.length, lambda);
+  const beta = matrixMultiply(inverse, matrixMultiply(Xt, y.map((v) => [v])));
+
+  return {
+    intercept: beta[0][0],
+    coefficients: beta.slice(1).map((row) => row[0]),
+    lambda: applied,
+  };
+}
+
+/**
+ * Cyclic coordinate descent on (1/2n)‖y − b₀ − Xβ‖² + λ‖β‖₁ with an
+ * unpenalized intercept.
+ */
+function fitLasso(X: Matrix, y: number[], lambda: number, maxIterations: number = 1000, tolerance: number = 1e-6): LinearFit {
+  const n = X.length;
+  const p = n > 0 ? X[0].length : 0;
+  const beta = new Array(p).fill(0);
+  let intercept = y.reduce((sum, v) => sum + v, 0) / (n || 1);
+  const residuals = y.map((v) => v - intercept);
+
+  const columnScale: number[] = [];
+  for (let j = 0; j < p; j++) {
+    let sq = 0;
+    for (let i = 0; i < n; i++) sq += X[i][j] * X[i][j];
+    columnScale[j] = sq / n;
+  }
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    let maxChange = 0;
 
-  const X: Matrix = [];
-  const y: number[] = [];
+    for (let j = 0; j < p; j++) {
+      if (columnScale[j] === 0) continue;
+      let rho = 0;
+      for (let i = 0; i < n; i++) rho += X[i][j] * (residuals[i] + X[i][j] * beta[j]);
+      rho /= n;
 
-  for (const record of train) {
-    const row: number[] = [1];
-    for (const name of featureNames) {
-      row.push(record.normalizedFeatures[name] ?? 0);
+      const updated = Math.sign(rho) * Math.max(0, Math.abs(rho) - lambda) / columnScale[j];
+      const delta = updated - beta[j];
+      if (delta !== 0) {
+        for (let i = 0; i < n; i++) residuals[i] -= X[i][j] * delta;
+        beta[j] = updated;
+        maxChange = Math.max(maxChange, Math.abs(delta));
+      }
+    }
+
+    const interceptShift = residuals.reduce((sum, r) => sum + r, 0) / n;
+    if (interceptShift !== 0) {
+      intercept += interceptShift;
+      for (let i = 0; i < n; i++) residuals[i] -= interceptShift;
+      maxChange = Math.max(maxChange, Math.abs(interceptShift));
     }
-    X.push(row);
-    y.push(record.targetValue);
+
+    if (maxChange < tolerance) break;
   }
 
-  const Xt = matrixTranspose(X);
-  const XtX = matrixMultiply(Xt, X);
-  const XtXinv = matrixInverse(XtX);
+  return { intercept, coefficients: beta };
+}
 
-  const yCol: Matrix = y.map((v) => [v]);
-  const XtY = matrixMultiply(Xt, yCol);
-  const beta = matrixMultiply(XtXinv, XtY);
+function fitLinear(modelType: ModelType, X: Matrix, y: number[], lambda: number): LinearFit {
+  switch (modelType) {
+    case "ridge":
+      return fitRidge(X, y, lambda);
+    case "lasso":
+      return fitLasso(X, y, lambda);
+    case "multivariate_regression":
+    default:
+      return fitRidge(X, y, 0);
+  }
+}
 
-  const intercept = beta[0][0];
-  const coefficients = beta.slice(1).map((row) => row[0]);
+/**
+ * Expanding-window folds over chronologically ordered rows: each fold trains
+ * on everything before its validation block, never on anything after it.
+ */
+export function timeSeriesFolds(
+  sampleCount: number,
+  foldCount: number,
+  minTrainSize: number
+): Array<{ trainEnd: number; testEnd: number }> {
+  const available = sampleCount - minTrainSize;
+  if (available < 1) return [];
+  const folds = Math.min(foldCount, available);
+  const blockSize = Math.floor(available / folds);
+  const result: Array<{ trainEnd: number; testEnd: number }> = [];
+  for (let f = 0; f < folds; f++) {
+    const trainEnd = minTrainSize + f * blockSize;
+    const testEnd = f === folds - 1 ? sampleCount : trainEnd + blockSize;
+    result.push({ trainEnd, testEnd });
+  }
+  return result;
+}
+
+/**
+ * Picks lambda by time-ordered cross-validation on the training portion only,
+ * so the held-out test split stays untouched for the reported metrics.
+ */
+export function selectLambda(
+  modelType: ModelType,
+  X: Matrix,
+  y: number[],
+  grid: number[] = LAMBDA_GRID
+): { lambda: number; search: LambdaSearchResult[] } {
+  const minTrain = Math.max(3, Math.floor(X.length / 2));
+  const folds = timeSeriesFolds(X.length, 4, minTrain);
+  if (folds.length === 0) {
+    return { lambda: grid[Math.floor(grid.length / 2)], search: [] };
+  }
+
+  const search: LambdaSearchResult[] = grid.map((lambda) => {
+    let sqError = 0;
+    let count = 0;
+    for (const { trainEnd, testEnd } of folds) {
+      const fit = fitLinear(modelType, X.slice(0, trainEnd), y.slice(0, trainEnd), lambda);
+      for (let i = trainEnd; i < testEnd; i++) {
+        const residual = y[i] - predict(fit.coefficients, fit.intercept, X[i]);
+        sqError += residual * residual;
+        count++;
+      }
+    }
+    return { lambda, cvMse: count > 0 ? sqError / count : Infinity };
+  });
 
-  const testPredictions: number[] = [];
-  const testActuals: number[] = [];
+  const best = search.reduce((a, b) => (b.cvMse < a.cvMse ? b : a));
+  return { lambda: best.lambda, search };
+}
 
-  for (const record of test) {
-    const featureVector = featureNames.map(
-      (name) => record.normalizedFeatures[name] ?? 0
-    );
-    const pred = predict(coefficients, intercept, featureVector);
-    testPredictions.push(pred);
-    testActuals.push(record.targetValue);
+function emptyTrainResult(
+  modelType: ModelType,
+  trainSampleCount: number,
+  testSampleCount: number,
+  tierThresholds: TierThresholds
+): TrainResult {
+  return {
+    modelType,
+    hyperparameters: {},
+    artifact: null,
+    coefficients: [],
+    intercept: 0,
+    featureNames: [],
+    rSquared: 0,
+    mae: 0,
+    tierAccuracy: 0,
+    directionalAccuracy: 0,
+    trainSampleCount,
+    testSampleCount,
+    crossValidation: null,
+    learningCurve: null,
+    uncertainty: null,
+    featureImportance: [],
+    tierThresholds,
+  };
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+export interface EvaluationMetrics {
+  rSquared: number;
+  mae: number;
+  tierAccuracy: number;
+  directionalAccuracy: number;
+  sampleCount: number;
+}
+
+export function evaluatePredictions(
+  predictions: number[],
+  actuals: number[],
+  thresholds: TierThresholds = DEFAULT_TIER_THRESHOLDS
+): EvaluationMetrics {
+  if (actuals.length === 0) {
+    return { rSquared: 0, mae: 0, tierAccuracy: 0, directionalAccuracy: 0, sampleCount: 0 };
   }
 
   const meanActual =
-    testActuals.reduce((s, v) => s + v, 0) / testActuals.length;
+    actuals.reduce((s, v) => s + v, 0) / actuals.length;
   let ssRes = 0;
   let ssTot = 0;
   let maeSum = 0;
 
-  for (let i = 0; i < testActuals.length; i++) {
-    const residual = testActuals[i] - testPredictions[i];
+  for (let i = 0; i < actuals.length; i++) {
+    const residual = actuals[i] - predictions[i];
     ssRes += residual * residual;
-    ssTot += (testActuals[i] - meanActual) ** 2;
+    ssTot += (actuals[i] - meanActual) ** 2;
     maeSum += Math.abs(residual);
   }
 
   const rSquared = ssTot > 0 ? 1 - ssRes / ssTot : 0;
-  const mae = maeSum / testActuals.length;
+  const mae = maeSum / actuals.length;
 
   let tierCorrect = 0;
-  for (let i = 0; i < testActuals.length; i++) {
-    if (classifyTier(testPredictions[i]) === classifyTier(testActuals[i])) {
+  for (let i = 0; i < actuals.length; i++) {
+    if (classifyTier(predictions[i], thresholds) === classifyTier(actuals[i], thresholds)) {
       tierCorrect++;
     }
   }
-  const tierAccuracy = tierCorrect / testActuals.length;
+  const tierAccuracy = tierCorrect / actuals.length;
 
   const medianActual = (() => {
-    const sorted = [...testActuals].sort((a, b) => a - b);
+    const sorted = [...actuals].sort((a, b) => a - b);
     const mid = Math.floor(sorted.length / 2);
     return sorted.length % 2 === 0
       ? (sorted[mid - 1] + sorted[mid]) / 2
@@ -243,18 +588,468 @@ export function trainModel(
   })();
 
   let directionalCorrect = 0;
-  for (let i = 0; i < testActuals.length; i++) {
-    const predAbove = testPredictions[i] >= medianActual;
-    const actualAbove = testActuals[i] >= medianActual;
+  for (let i = 0; i < actuals.length; i++) {
+    const predAbove = predictions[i] >= medianActual;
+    const actualAbove = actuals[i] >= medianActual;
     if (predAbove === actualAbove) {
       directionalCorrect++;
     }
   }
-  const directionalAccuracy = directionalCorrect / testActuals.length;
+  const directionalAccuracy = directionalCorrect / actuals.length;
+
+  return { rSquared, mae, tierAccuracy, directionalAccuracy, sampleCount: actuals.length };
+}
+
+export interface FeatureImportance {
+  featureName: string;
+  importance: number;
+  importanceStd: number;
+}
+
+/**
+ * Permutation importance: the mean increase in MAE when one feature's column
+ * is shuffled, breaking its link to the target. Shuffles use a fixed seed so
+ * retraining the same data reports the same importances.
+ */
+export function computePermutationImportance(
+  scorer: ScoringModel,
+  X: Matrix,
+  y: number[],
+  featureNames: string[],
+  repeats: number = 5
+): FeatureImportance[] {
+  if (X.length < 2) {
+    return featureNames.map((featureName) => ({ featureName, importance: 0, importanceStd: 0 }));
+  }
+
+  const baselineMae = evaluatePredictions(X.map((row) => scorer.predict(row)), y).mae;
+  const random = mulberry32(7);
+
+  return featureNames.map((featureName, j) => {
+    const increases: number[] = [];
+    for (let r = 0; r < repeats; r++) {
+      const column = X.map((row) => row[j]);
+      for (let i = column.length - 1; i > 0; i--) {
+        const k = Math.floor(random() * (i + 1));
+        [column[i], column[k]] = [column[k], column[i]];
+      }
+      const permuted = X.map((row, i) => {
+        const copy = [...row];
+        copy[j] = column[i];
+        return copy;
+      });
+      increases.push(evaluatePredictions(permuted.map((row) => scorer.predict(row)), y).mae - baselineMae);
+    }
+
+    const importance = increases.reduce((sum, v) => sum + v, 0) / increases.length;
+    const variance = increases.reduce((sum, v) => sum + (v - importance) ** 2, 0) / increases.length;
+    return { featureName, importance, importanceStd: Math.sqrt(variance) };
+  });
+}
+
+// ============================================================================
+// Fitting
+// ============================================================================
+
+interface FittedModel {
+  scorer: ScoringModel;
+  coefficients: number[];
+  intercept: number;
+  artifact: BoostedTreesArtifact | null;
+  hyperparameters: TrainResult["hyperparameters"];
+}
+
+function fitModel(
+  modelType: ModelType,
+  featureNames: string[],
+  X: Matrix,
+  y: number[],
+  options: TrainOptions
+): FittedModel {
+  const hyperparameters: TrainResult["hyperparameters"] = {};
+  let coefficients: number[] = [];
+  let intercept = 0;
+  let artifact: BoostedTreesArtifact | null = null;
+
+  if (modelType === "gradient_boosted_trees") {
+    hyperparameters.boosting = { ...DEFAULT_BOOSTING_PARAMS, ...options.boosting };
+    artifact = trainBoostedTrees(X, y, hyperparameters.boosting);
+    intercept = artifact.baseScore;
+  } else {
+    let lambda = 0;
+    if (modelType !== "multivariate_regression") {
+      if (options.lambda !== undefined) {
+        lambda = options.lambda;
+      } else {
+        const selection = selectLambda(modelType, X, y);
+        lambda = selection.lambda;
+        hyperparameters.lambdaSearch = selection.search;
+      }
+      hyperparameters.lambda = lambda;
+    }
+    const fit = fitLinear(modelType, X, y, lambda);
+    ({ intercept, coefficients } = fit);
+    if (fit.lambda !== undefined && fit.lambda > lambda) {
+      hyperparameters.lambda = fit.lambda;
+      hyperparameters.rankDeficient = true;
+    }
+  }
+
+  const scorer = loadScoringModel({ modelType, featureNames, coefficients, intercept, modelArtifact: artifact });
+  return { scorer, coefficients, intercept, artifact, hyperparameters };
+}
+
+// Hyperparameters chosen for the final model are reused when refitting on
+// folds and curve points, so those runs measure data, not tuning.
+function fixedOptions(modelType: ModelType, fitted: FittedModel, tierThresholds: TierThresholds): TrainOptions {
+  return {
+    modelType,
+    lambda: fitted.hyperparameters.lambda,
+    boosting: fitted.hyperparameters.boosting,
+    tierThresholds,
+  };
+}
+
+function toMatrix(records: DatasetRecord[], featureNames: string[]): Matrix {
+  return records.map((record) => featureNames.map((name) => record.normalizedFeatures[name] ?? 0));
+}
+
+// ============================================================================
+// Walk-Forward Cross-Validation & Learning Curve
+// ============================================================================
+
+export interface CrossValidationFold extends EvaluationMetrics {
+  fold: number;
+  trainSize: number;
+  testSize: number;
+}
+
+export interface CrossValidationResult {
+  folds: CrossValidationFold[];
+  aggregate: EvaluationMetrics;
+}
+
+export interface LearningCurvePoint {
+  trainSize: number;
+  trainMae: number;
+  testMae: number;
+  testRSquared: number;
+}
+
+export interface LearningCurveResult {
+  points: LearningCurvePoint[];
+  stillImproving: boolean;
+}
+
+/**
+ * Expanding-window validation over all records in time order. Aggregate
+ * metrics are pooled over every out-of-fold prediction rather than averaged,
+ * so small final folds don't get outsized weight. Without `foldInputs` the
+ * folds reuse the records' existing normalization.
+ */
+export function walkForwardValidate(
+  sorted: DatasetRecord[],
+  featureNames: string[],
+  options: TrainOptions,
+  foldCount: number = 5,
+  foldInputs?: FoldInputs
+): CrossValidationResult {
+  const modelType = options.modelType ?? "multivariate_regression";
+  const minTrain = Math.max(5, Math.floor(sorted.length * 0.4));
+
+  const folds: CrossValidationFold[] = [];
+  const pooledPredictions: number[] = [];
+  const pooledActuals: number[] = [];
+
+  timeSeriesFolds(sorted.length, foldCount, minTrain).forEach(({ trainEnd, testEnd }, index) => {
+    const fold = foldInputs
+      ? foldInputs(trainEnd, testEnd)
+      : { train: sorted.slice(0, trainEnd), test: sorted.slice(trainEnd, testEnd) };
+    // Encoders refit on a fold may know fewer categories than the full
+    // training split, so the fold's columns come from its own rows.
+    const names = foldInputs ? Object.keys(fold.train[0].normalizedFeatures).sort() : featureNames;
+
+    const { scorer } = fitModel(modelType, names, toMatrix(fold.train, names), fold.train.map((r) => r.targetValue), options);
+    const predictions = toMatrix(fold.test, names).map((row) => scorer.predict(row));
+    const actuals = fold.test.map((r) => r.targetValue);
+
+    pooledPredictions.push(...predictions);
+    pooledActuals.push(...actuals);
+    folds.push({
+      fold: index + 1,
+      trainSize: trainEnd,
+      testSize: testEnd - trainEnd,
+      ...evaluatePredictions(predictions, actuals, options.tierThresholds),
+    });
+  });
+
+  return { folds, aggregate: evaluatePredictions(pooledPredictions, pooledActuals, options.tierThresholds) };
+}
+
+/**
+ * Refits on growing chronological prefixes of the training split and scores
+ * each on the same held-out test split. `stillImproving` is true when the last
+ * step cut test MAE by more than 1%, i.e. more data is still paying off.
+ */
+export function computeLearningCurve(
+  train: DatasetRecord[],
+  test: DatasetRecord[],
+  featureNames: string[],
+  options: TrainOptions,
+  fractions: number[] = [0.2, 0.4, 0.6, 0.8, 1]
+): LearningCurveResult {
+  const modelType = options.modelType ?? "multivariate_regression";
+  const Xtrain = toMatrix(train, featureNames);
+  const ytrain = train.map((r) => r.targetValue);
+  const Xtest = toMatrix(test, featureNames);
+  const ytest = test.map((r) => r.targetValue);
+
+  const sizes = Array.from(new Set(fractions.map((f) => Math.max(3, Math.round(train.length * f)))))
+    .filter((size) => size <= train.length);
+
+  const points: LearningCurvePoint[] = sizes.map((size) => {
+    const { scorer } = fitModel(modelType, featureNames, Xtrain.slice(0, size), ytrain.slice(0, size), options);
+    const trainMetrics = evaluatePredictions(Xtrain.slice(0, size).map((row) => scorer.predict(row)), ytrain.slice(0, size));
+    const testMetrics = evaluatePredictions(Xtest.map((row) => scorer.predict(row)), ytest);
+    return { trainSize: size, trainMae: trainMetrics.mae, testMae: testMetrics.mae, testRSquared: testMetrics.rSquared };
+  });
+
+  const last = points[points.length - 1];
+  const previous = points[points.length - 2];
+  const stillImproving = !!last && !!previous && last.testMae < previous.testMae * 0.99;
+
+  return { points, stillImproving };
+}
+
+// ============================================================================
+// Prediction Intervals
+// ============================================================================
+
+export const DEFAULT_INTERVAL_LEVEL = 0.9;
+export const BOOTSTRAP_ENSEMBLE_SIZE = 20;
+
+/**
+ * Stored on pattern_models.uncertainty_artifact. Linear models keep the
+ * (regularized) inverse of the design matrix so the interval widens with the
+ * leverage of each input; tree models keep a bootstrap ensemble whose spread
+ * stands in for parameter uncertainty.
+ */
+export type UncertaintyArtifact =
+  | { method: "linear_residual"; covariance: number[][]; residualVariance: number; degreesOfFreedom: number }
+  | { method: "bootstrap_ensemble"; members: BoostedTreesArtifact[]; residualVariance: number; degreesOfFreedom: number };
+
+export interface PredictionInterval {
+  predictedValue: number;
+  lower: number;
+  upper: number;
+  level: number;
+  standardError: number;
+  method: UncertaintyArtifact["method"];
+  tierProbabilities: Record<string, number>;
+}
+
+// Abramowitz & Stegun 7.1.26, accurate to ~1.5e-7.
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function normalQuantile(p: number): number {
+  let lo = -10;
+  let hi = 10;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (normalCdf(mid) < p) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+// Cornish-Fisher expansion of the Student-t quantile around the normal one.
+function studentTQuantile(p: number, degreesOfFreedom: number): number {
+  const z = normalQuantile(p);
+  const v = Math.max(1, degreesOfFreedom);
+  return (
+    z +
+    (z ** 3 + z) / (4 * v) +
+    (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * v * v) +
+    (3 * z ** 7 + 19 * z ** 5 + 17 * z ** 3 - 15 * z) / (384 * v ** 3)
+  );
+}
+
+function sumSquares(predictions: number[], actuals: number[]): number {
+  let total = 0;
+  for (let i = 0; i < actuals.length; i++) total += (actuals[i] - predictions[i]) ** 2;
+  return total;
+}
+
+/**
+ * Linear models: σ² = SSR / (n − p − 1) from the training fit and
+ * Cov(β̂)/σ² = A⁻¹XᵀXA⁻¹ with A = XᵀX + nλD (λ = 0 for OLS and lasso unless XᵀX is singular).
+ * Trees: the residual variance comes from the held-out split, since in-sample
+ * boosting residuals are optimistic.
+ */
+function fitUncertainty(
+  modelType: ModelType,
+  fitted: FittedModel,
+  X: Matrix,
+  y: number[],
+  testX: Matrix,
+  testY: number[]
+): UncertaintyArtifact {
+  const n = X.length;
+
+  if (modelType === "gradient_boosted_trees") {
+    // Fixed seed so bootstrap ensembles (and therefore training) stay reproducible.
+    const random = mulberry32(1);
+    const members: BoostedTreesArtifact[] = [];
+    for (let b = 0; b < BOOTSTRAP_ENSEMBLE_SIZE; b++) {
+      const Xb: Matrix = [];
+      const yb: number[] = [];
+      for (let i = 0; i < n; i++) {
+        const pick = Math.floor(random() * n);
+        Xb.push(X[pick]);
+        yb.push(y[pick]);
+      }
+      members.push(trainBoostedTrees(Xb, yb, fitted.hyperparameters.boosting));
+    }
+
+    const holdoutX = testY.length > 0 ? testX : X;
+    const holdoutY = testY.length > 0 ? testY : y;
+    const residualVariance = sumSquares(holdoutX.map((row) => fitted.scorer.predict(row)), holdoutY) / holdoutY.length;
+    return { method: "bootstrap_ensemble", members, residualVariance, degreesOfFreedom: holdoutY.length };
+  }
+
+  const design: Matrix = X.map((row) => [1, ...row]);
+  const Xt = matrixTranspose(design);
+  const XtX = matrixMultiply(Xt, design);
+  const penalty = modelType === "lasso" ? 0 : fitted.hyperparameters.lambda ?? 0;
+  const { inverse: Ainv, lambda } = invertNormalMatrix(XtX, n, penalty);
+  const covariance = lambda > 0 ? matrixMultiply(matrixMultiply(Ainv, XtX), Ainv) : Ainv;
+
+  const degreesOfFreedom = Math.max(1, n - design[0].length);
+  const residualVariance = sumSquares(X.map((row) => fitted.scorer.predict(row)), y) / degreesOfFreedom;
+  return { method: "linear_residual", covariance, residualVariance, degreesOfFreedom };
+}
+
+/**
+ * Probability mass of each tier under a normal predictive distribution.
+ * A zero standard error collapses to the point prediction's tier.
+ */
+export function computeTierProbabilities(
+  mean: number,
+  standardError: number,
+  thresholds: TierThresholds = DEFAULT_TIER_THRESHOLDS
+): Record<string, number> {
+  if (!(standardError > 0)) {
+    const tier = classifyTier(mean, thresholds);
+    return { low: tier === "low" ? 1 : 0, mid: tier === "mid" ? 1 : 0, top: tier === "top" ? 1 : 0 };
+  }
+  const low = normalCdf((thresholds.low - mean) / standardError);
+  const top = 1 - normalCdf((thresholds.top - mean) / standardError);
+  return { low, mid: Math.max(0, 1 - low - top), top };
+}
+
+/**
+ * Per-input prediction interval. Returns null for models trained before
+ * uncertainty artifacts were stored; callers fall back to the point estimate.
+ */
+export function predictInterval(
+  model: ScoringModel,
+  uncertainty: UncertaintyArtifact | null | undefined,
+  featureVector: number[],
+  level: number = DEFAULT_INTERVAL_LEVEL,
+  thresholds: TierThresholds = DEFAULT_TIER_THRESHOLDS
+): PredictionInterval | null {
+  if (!uncertainty) return null;
+
+  const predictedValue = model.predict(featureVector);
+  let variance: number;
+
+  if (uncertainty.method === "bootstrap_ensemble") {
+    const memberPredictions = uncertainty.members.map((member) => predictBoostedTrees(member, featureVector));
+    const mean = memberPredictions.reduce((sum, v) => sum + v, 0) / (memberPredictions.length || 1);
+    const ensembleVariance =
+      memberPredictions.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(1, memberPredictions.length - 1);
+    variance = ensembleVariance + uncertainty.residualVariance;
+  } else {
+    const x0 = [1, ...model.featureNames.map((_, i) => featureVector[i] ?? 0)];
+    let leverage = 0;
+    for (let i = 0; i < x0.length; i++) {
+      for (let j = 0; j < x0.length; j++) {
+        leverage += x0[i] * (uncertainty.covariance[i]?.[j] ?? 0) * x0[j];
+      }
+    }
+    variance = uncertainty.residualVariance * (1 + Math.max(0, leverage));
+  }
+
+  const standardError = Math.sqrt(Math.max(0, variance));
+  const critical = studentTQuantile((1 + level) / 2, uncertainty.degreesOfFreedom);
+
+  return {
+    predictedValue,
+    lower: predictedValue - critical * standardError,
+    upper: predictedValue + critical * standardError,
+    level,
+    standardError,
+    method: uncertainty.method,
+    tierProbabilities: computeTierProbabilities(predictedValue, standardError, thresholds),
+  };
+}
+
+// ============================================================================
+// Training Entry Point
+// ============================================================================
+
+export function trainModel(
+  datasetId: string,
+  records: DatasetRecord[],
+  options: TrainOptions = {}
+): TrainResult {
+  const modelType = options.modelType ?? "multivariate_regression";
+  const validationMode = options.validationMode ?? "walk_forward";
+  const tierThresholds = options.tierThresholds ?? DEFAULT_TIER_THRESHOLDS;
+
+  if (records.length < 3) {
+    return emptyTrainResult(modelType, 0, 0, tierThresholds);
+  }
+
+  const { train, test } = splitData(records);
+
+  if (train.length === 0 || test.length === 0) {
+    return emptyTrainResult(modelType, train.length, test.length, tierThresholds);
+  }
+
+  const featureNames = Object.keys(train[0].normalizedFeatures).sort();
+
+  const X: Matrix = toMatrix(train, featureNames);
+  const y: number[] = train.map((record) => record.targetValue);
+
+  const fitted = fitModel(modelType, featureNames, X, y, options);
+  const testX = toMatrix(test, featureNames);
+  const testPredictions = testX.map((row) => fitted.scorer.predict(row));
+  const testActuals = test.map((record) => record.targetValue);
+  const { rSquared, mae, tierAccuracy, directionalAccuracy } = evaluatePredictions(testPredictions, testActuals, tierThresholds);
+
+  let crossValidation: CrossValidationResult | null = null;
+  let learningCurve: LearningCurveResult | null = null;
+  if (validationMode === "walk_forward") {
+    const refitOptions = fixedOptions(modelType, fitted, tierThresholds);
+    crossValidation = walkForwardValidate([...train, ...test], featureNames, refitOptions, options.cvFolds, options.foldInputs);
+    learningCurve = computeLearningCurve(train, test, featureNames, refitOptions);
+  }
+
+  const uncertainty = fitUncertainty(modelType, fitted, X, y, testX, testActuals);
+  const featureImportance = computePermutationImportance(fitted.scorer, testX, testActuals, featureNames);
 
   return {
-    coefficients,
-    intercept,
+    modelType,
+    hyperparameters: fitted.hyperparameters,
+    artifact: fitted.artifact,
+    coefficients: fitted.coefficients,
+    intercept: fitted.intercept,
     featureNames,
     rSquared,
     mae,
@@ -262,5 +1057,10 @@ export function trainModel(
     directionalAccuracy,
     trainSampleCount: train.length,
     testSampleCount: test.length,
+    crossValidation,
+    learningCurve,
+    uncertainty,
+    featureImportance,
+    tierThresholds,
   };
 }
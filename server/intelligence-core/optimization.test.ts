@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { optimizeFeaturesConstrained, parseConstrainedOptimizationRequest, type FeatureBounds } from "./optimization";
+
+// Rewards long setups and late punchlines; pace is worth the most.
+const linear = (f: Record<string, number>) => 2 * (f.setupDuration ?? 0) + (f.punchlineTiming ?? 0) + 5 * (f.deliveryPaceWps ?? 0);
+const bounds: FeatureBounds = {
+  setupDuration: { min: 0, max: 20 },
+  punchlineTiming: { min: 0, max: 30 },
+  deliveryPaceWps: { min: 1, max: 4 },
+};
+const current = { setupDuration: 5, punchlineTiming: 10, deliveryPaceWps: 2 };
+
+describe("optimizeFeaturesConstrained", () => {
+  it("moves every free feature to its best bound on a linear model", () => {
+    const result = optimizeFeaturesConstrained(current, linear, bounds, "ridge");
+
+    expect(result.method).toBe("coordinate_search");
+    expect(result.targetFeatures).toEqual({ setupDuration: 20, punchlineTiming: 30, deliveryPaceWps: 4 });
+    expect(result.predictedLift).toBe(linear(result.targetFeatures) - linear(current));
+    expect(result.feasible).toBe(true);
+  });
+
+  it("never moves locked features", () => {
+    const result = optimizeFeaturesConstrained(current, linear, bounds, "ridge", { locked: ["deliveryPaceWps"] });
+
+    expect(result.targetFeatures.deliveryPaceWps).toBe(2);
+    expect(result.changes.map((c) => c.featureName)).not.toContain("deliveryPaceWps");
+  });
+
+  it("keeps request bounds tighter than the model's", () => {
+    const result = optimizeFeaturesConstrained(current, linear, bounds, "ridge", { bounds: { setupDuration: { min: 4, max: 8 } } });
+    expect(result.targetFeatures.setupDuration).toBe(8);
+  });
+
+  it("respects linear constraints between features", () => {
+    // Punchline at least 2s after setup, and the two together under 24s.
+    const constraints = [
+      { terms: { punchlineTiming: 1, setupDuration: -1 }, op: ">=" as const, value: 2 },
+      { terms: { punchlineTiming: 1, setupDuration: 1 }, op: "<=" as const, value: 24 },
+    ];
+    const result = optimizeFeaturesConstrained(current, linear, bounds, "ridge", { constraints });
+    const { setupDuration, punchlineTiming } = result.targetFeatures;
+
+    expect(result.feasible).toBe(true);
+    expect(punchlineTiming - setupDuration).toBeGreaterThanOrEqual(2 - 1e-9);
+    expect(punchlineTiming + setupDuration).toBeLessThanOrEqual(24 + 1e-9);
+    expect(result.optimizedPrediction).toBeGreaterThan(result.currentPrediction);
+  });
+
+  it("pulls an infeasible start back into the feasible region", () => {
+    const constraints = [{ terms: { punchlineTiming: 1, setupDuration: -1 }, op: ">=" as const, value: 0 }];
+    const start = { ...current, setupDuration: 15, punchlineTiming: 3 };
+    const result = optimizeFeaturesConstrained(start, (f) => -linear(f), bounds, "ridge", { constraints });
+
+    expect(result.feasible).toBe(true);
+    expect(result.targetFeatures.punchlineTiming).toBeGreaterThanOrEqual(result.targetFeatures.setupDuration);
+  });
+
+  it("searches tree models randomly within bounds and replays from the seed", () => {
+    const step = (f: Record<string, number>) => (f.setupDuration > 12 ? 10 : 0) + (f.deliveryPaceWps < 2 ? 5 : 0);
+    const request = { locked: ["punchlineTiming"], seed: 3, maxEvaluations: 300 };
+    const result = optimizeFeaturesConstrained(current, step, bounds, "gradient_boosted_trees", request);
+
+    expect(result.method).toBe("random_search");
+    expect(result.evaluations).toBeLessThanOrEqual(300);
+    expect(result.optimizedPrediction).toBe(15);
+    expect(result.targetFeatures.punchlineTiming).toBe(10);
+    for (const [name, { min, max }] of Object.entries(bounds)) {
+      expect(result.targetFeatures[name]).toBeGreaterThanOrEqual(min);
+      expect(result.targetFeatures[name]).toBeLessThanOrEqual(max);
+    }
+    expect(optimizeFeaturesConstrained(current, step, bounds, "gradient_boosted_trees", request)).toEqual(result);
+  });
+
+  it("stops at the evaluation budget", () => {
+    expect(optimizeFeaturesConstrained(current, linear, bounds, "ridge", { maxEvaluations: 7 }).evaluations).toBe(7);
+  });
+});
+
+describe("parseConstrainedOptimizationRequest", () => {
+  it("parses a full request", () => {
+    expect(
+      parseConstrainedOptimizationRequest({
+        bounds: { setupDuration: { min: "1", max: 5 } },
+        locked: ["deliveryPaceWps"],
+        constraints: [{ terms: { punchlineTiming: 1, setupDuration: "-1" }, op: ">=" }],
+        maxEvaluations: 100,
+        seed: 9,
+      })
+    ).toEqual({
+      bounds: { setupDuration: { min: 1, max: 5 } },
+      locked: ["deliveryPaceWps"],
+      constraints: [{ terms: { punchlineTiming: 1, setupDuration: -1 }, op: ">=", value: 0 }],
+      maxEvaluations: 100,
+      seed: 9,
+    });
+  });
+
+  it.each([
+    [{ bounds: { setupDuration: { min: 5, max: 1 } } }, "bounds for setupDuration need finite min <= max"],
+    [{ locked: "setupDuration" }, "locked must be an array of feature names"],
+    [{ constraints: [{ terms: {}, op: ">=" }] }, "each constraint needs a non-empty terms object of feature -> coefficient"],
+    [{ constraints: [{ terms: { a: 1 }, op: "=" }] }, 'constraint op must be "<=" or ">="'],
+    [{ maxEvaluations: 0 }, "maxEvaluations must be an integer between 1 and 20000"],
+    [{ seed: 1.5 }, "seed must be an integer"],
+  ])("rejects %o", (body, message) => {
+    expect(parseConstrainedOptimizationRequest(body)).toBe(message);
+  });
+});
@@ -1,4 +1,6 @@
-import { predict } from "./model-training";
+import type { ScoringModel } from "./model-training";
+import { mulberry32 } from "./random";
+import { denormalizeValue, type FeatureStats } from "./feature-engineering";
 
 export interface OptimizationSuggestion {
   featureName: string;
@@ -17,95 +19,83 @@ export interface OptimizationResult {
   liftPercent: number;
 }
 
+export type FeatureBounds = Record<string, { min: number; max: number }>;
+
+const UNIT_BOUNDS = { min: 0, max: 1 };
+
+function clampToBounds(value: number, bound: { min: number; max: number }): number {
+  return Math.max(bound.min, Math.min(bound.max, value));
+}
+
 export function simulateDelta(
   featureVector: Record<string, number>,
-  featureIndex: number,
+  featureName: string,
   delta: number,
-  coefficients: number[],
-  intercept: number
+  model: ScoringModel,
+  bounds?: FeatureBounds
 ): number {
-  const clonedVector = { ...featureVector };
-  const featureNames = Object.keys(featureVector);
-  const featureName = featureNames[featureIndex];
-
-  if (featureName === undefined) {
-    throw new Error(`Invalid feature index: ${featureIndex}`);
+  if (!model.featureNames.includes(featureName)) {
+    throw new Error(`Unknown feature: ${featureName}`);
   }
 
-  clonedVector[featureName] += delta;
-  clonedVector[featureName] = Math.max(0, Math.min(1, clonedVector[featureName]));
+  const clonedVector = { ...featureVector };
+  clonedVector[featureName] = clampToBounds((clonedVector[featureName] ?? 0) + delta, bounds?.[featureName] ?? UNIT_BOUNDS);
 
-  const featureArray = featureNames.map((name) => clonedVector[name] ?? 0);
-  return predict(coefficients, intercept, featureArray);
+  const featureArray = model.featureNames.map((name) => clonedVector[name] ?? 0);
+  return model.predict(featureArray);
 }
 
 export function optimizeFeatures(
   currentFeatures: Record<string, number>,
-  coefficients: number[],
-  intercept: number,
-  featureNames: string[],
-  stepSize: number = 0.05
+  model: ScoringModel,
+  stepSize: number = 0.05,
+  bounds?: FeatureBounds
 ): OptimizationResult {
-  const currentPrediction = predict(
-    coefficients,
-    intercept,
-    featureNames.map((name) => currentFeatures[name] ?? 0)
-  );
-
-  const suggestions: OptimizationSuggestion[] = [];
+  const featureNames = model.featureNames;
+  const currentPrediction = model.predict(featureNames.map((name) => currentFeatures[name] ?? 0));
 
-  const featureArray = featureNames.map((name) => currentFeatures[name] ?? 0);
+  const candidates: Array<Omit<OptimizationSuggestion, "confidence">> = [];
 
-  for (let i = 0; i < featureNames.length; i++) {
-    const featureName = featureNames[i];
+  for (const featureName of featureNames) {
     const currentValue = currentFeatures[featureName] ?? 0;
+    // Steps are a fraction of the feature's normalized range, so z-score and
+    // robust features move proportionally to min-max ones.
+    const bound = bounds?.[featureName] ?? UNIT_BOUNDS;
+    const step = stepSize * (bound.max - bound.min || 1);
 
-    const positiveDeltaPrediction = simulateDelta(
-      currentFeatures,
-      i,
-      stepSize,
-      coefficients,
-      intercept
-    );
-    const negativeDeltaPrediction = simulateDelta(
-      currentFeatures,
-      i,
-      -stepSize,
-      coefficients,
-      intercept
-    );
-
-    const positiveGain = positiveDeltaPrediction - currentPrediction;
-    const negativeGain = negativeDeltaPrediction - currentPrediction;
+    const positiveGain = simulateDelta(currentFeatures, featureName, step, model, bounds) - currentPrediction;
+    const negativeGain = simulateDelta(currentFeatures, featureName, -step, model, bounds) - currentPrediction;
 
     let suggestedValue = currentValue;
     let predictedGain = 0;
 
     if (positiveGain > negativeGain && positiveGain > 0) {
-      suggestedValue = Math.max(0, Math.min(1, currentValue + stepSize));
+      suggestedValue = clampToBounds(currentValue + step, bound);
       predictedGain = positiveGain;
     } else if (negativeGain > 0) {
-      suggestedValue = Math.max(0, Math.min(1, currentValue - stepSize));
+      suggestedValue = clampToBounds(currentValue - step, bound);
       predictedGain = negativeGain;
     }
 
     if (predictedGain > 0) {
-      const coefficient = coefficients[i] ?? 0;
-      const maxCoefficient = Math.max(...coefficients.map(Math.abs));
-      const confidence =
-        maxCoefficient !== 0 ? Math.min(1, Math.abs(coefficient) / maxCoefficient) : 0;
-
-      suggestions.push({
+      candidates.push({
         featureName,
         currentValue,
         suggestedValue,
         delta: suggestedValue - currentValue,
         predictedGain,
-        confidence,
       });
     }
   }
 
+  // Confidence is each feature's gain relative to the strongest one; for a
+  // linear model with unclipped steps this tracks |coefficient| / max|coefficient|.
+  const maxGain = Math.max(0, ...candidates.map((c) => c.predictedGain));
+  const suggestions: OptimizationSuggestion[] = candidates.map((c) => ({
+    ...c,
+    confidence: maxGain > 0 ? Math.min(1, c.predictedGain / maxGain) : 0,
+  }));
+
   suggestions.sort((a, b) => b.predictedGain - a.predictedGain);
 
   const totalProjectedLift = suggestions.reduce((sum, s) => sum + s.predictedGain, 0);
@@ -121,6 +111,318 @@ export function optimizeFeatures(
   };
 }
 
+// ============================================================================
+// Raw-Unit Translation
+// ============================================================================
+
+const FEATURE_UNITS: Record<string, { label: string; unit: string; decimals: number; countNoun?: string }> = {
+  setupDuration: { label: "setup", unit: "s", decimals: 1 },
+  punchlineTiming: { label: "punchline", unit: "s", decimals: 1 },
+  duration: { label: "total duration", unit: "s", decimals: 1 },
+  deliveryPaceWps: { label: "delivery pace", unit: " words/s", decimals: 2 },
+  wordCount: { label: "word count", unit: " words", decimals: 0, countNoun: "words" },
+  toneShiftDensity: { label: "tone shift density", unit: " per s", decimals: 3 },
+  escalationDensity: { label: "escalation density", unit: " per s", decimals: 3 },
+};
+
+/** Turns a raw-unit change into a scriptwriter instruction, e.g. "move punchline from 11.2s to 9.8s". */
+export function describeFeatureChange(featureName: string, from: number, to: number): string {
+  const spec = FEATURE_UNITS[featureName] ?? { label: featureName, unit: "", decimals: 2 };
+  if (spec.countNoun) {
+    const diff = Math.round(to) - Math.round(from);
+    return diff < 0 ? `cut ${-diff} ${spec.countNoun}` : `add ${diff} ${spec.countNoun}`;
+  }
+  return `move ${spec.label} from ${from.toFixed(spec.decimals)}${spec.unit} to ${to.toFixed(spec.decimals)}${spec.unit}`;
+}
+
+export interface RawOptimizationSuggestion extends OptimizationSuggestion {
+  currentRawValue: number | null;
+  suggestedRawValue: number | null;
+  rawDelta: number | null;
+  instruction: string | null;
+}
+
+/**
+ * Maps normalized suggestions back through each feature's frozen normalization.
+ * Encoded category columns have no raw unit and keep null raw fields.
+ */
+export function translateSuggestions(
+  suggestions: OptimizationSuggestion[],
+  featureStats: Record<string, FeatureStats>,
+  rawFeatures: Record<string, number>,
+  encodedColumns: Set<string>
+): RawOptimizationSuggestion[] {
+  return suggestions.map((suggestion) => {
+    const stats = featureStats[suggestion.featureName];
+    if (!stats || encodedColumns.has(suggestion.featureName)) {
+      return { ...suggestion, currentRawValue: null, suggestedRawValue: null, rawDelta: null, instruction: null };
+    }
+    const currentRawValue = rawFeatures[suggestion.featureName] ?? denormalizeValue(suggestion.currentValue, stats);
+    const suggestedRawValue = denormalizeValue(suggestion.suggestedValue, stats);
+    return {
+      ...suggestion,
+      currentRawValue,
+      suggestedRawValue,
+      rawDelta: suggestedRawValue - currentRawValue,
+      instruction: describeFeatureChange(suggestion.featureName, currentRawValue, suggestedRawValue),
+    };
+  });
+}
+
+// ============================================================================
+// Constrained Joint Optimization
+// ============================================================================
+
+/**
+ * Linear inequality over raw feature values: sum(coefficient * feature) op value.
+ * "Punchline after setup" is { terms: { punchlineTiming: 1, setupDuration: -1 }, op: ">=", value: 0 }.
+ */
+export interface FeatureConstraint {
+  terms: Record<string, number>;
+  op: "<=" | ">=";
+  value: number;
+}
+
+export interface ConstrainedOptimizationRequest {
+  bounds?: FeatureBounds;
+  locked?: string[];
+  constraints?: FeatureConstraint[];
+  maxEvaluations?: number;
+  seed?: number;
+}
+
+export interface FeatureChange {
+  featureName: string;
+  currentValue: number;
+  targetValue: number;
+  delta: number;
+  instruction: string;
+}
+
+export interface ConstrainedOptimizationResult {
+  method: "coordinate_search" | "random_search";
+  currentPrediction: number;
+  optimizedPrediction: number;
+  predictedLift: number;
+  liftPercent: number;
+  feasible: boolean;
+  targetFeatures: Record<string, number>;
+  changes: FeatureChange[];
+  evaluations: number;
+  seed: number;
+}
+
+export const DEFAULT_OPTIMIZER_EVALUATIONS = 2000;
+const GRID_POINTS = 21;
+const DEFAULT_OPTIMIZER_SEED = 17;
+
+/** Validates a request body into optimizer options; returns an error message on bad input. */
+export function parseConstrainedOptimizationRequest(body: any): ConstrainedOptimizationRequest | string {
+  const request: ConstrainedOptimizationRequest = {};
+
+  if (body?.bounds !== undefined) {
+    if (typeof body.bounds !== "object" || body.bounds === null || Array.isArray(body.bounds)) {
+      return "bounds must be an object of feature -> { min, max }";
+    }
+    const bounds: FeatureBounds = {};
+    for (const [name, bound] of Object.entries(body.bounds as Record<string, any>)) {
+      const min = Number(bound?.min);
+      const max = Number(bound?.max);
+      if (!Number.isFinite(min) || !Number.isFinite(max) || min > max) {
+        return `bounds for ${name} need finite min <= max`;
+      }
+      bounds[name] = { min, max };
+    }
+    request.bounds = bounds;
+  }
+
+  if (body?.locked !== undefined) {
+    if (!Array.isArray(body.locked) || body.locked.some((name: unknown) => typeof name !== "string")) {
+      return "locked must be an array of feature names";
+    }
+    request.locked = body.locked;
+  }
+
+  if (body?.constraints !== undefined) {
+    if (!Array.isArray(body.constraints)) return "constraints must be an array";
+    const constraints: FeatureConstraint[] = [];
+    for (const c of body.constraints) {
+      if (!c || typeof c.terms !== "object" || c.terms === null || Object.keys(c.terms).length === 0) {
+        return "each constraint needs a non-empty terms object of feature -> coefficient";
+      }
+      if (c.op !== "<=" && c.op !== ">=") return 'constraint op must be "<=" or ">="';
+      const terms: Record<string, number> = {};
+      for (const [name, coefficient] of Object.entries(c.terms)) {
+        if (!Number.isFinite(Number(coefficient))) return `constraint coefficient for ${name} must be a number`;
+        terms[name] = Number(coefficient);
+      }
+      const value = Number(c.value ?? 0);
+      if (!Number.isFinite(value)) return "constraint value must be a number";
+      constraints.push({ terms, op: c.op, value });
+    }
+    request.constraints = constraints;
+  }
+
+  if (body?.maxEvaluations !== undefined) {
+    const maxEvaluations = Number(body.maxEvaluations);
+    if (!Number.isInteger(maxEvaluations) || maxEvaluations < 1 || maxEvaluations > 20000) {
+      return "maxEvaluations must be an integer between 1 and 20000";
+    }
+    request.maxEvaluations = maxEvaluations;
+  }
+
+  if (body?.seed !== undefined) {
+    if (!Number.isInteger(body.seed)) return "seed must be an integer";
+    request.seed = body.seed;
+  }
+
+  return request;
+}
+
+function constraintViolation(features: Record<string, number>, constraints: FeatureConstraint[]): number {
+  let violation = 0;
+  for (const c of constraints) {
+    let lhs = 0;
+    for (const [name, coefficient] of Object.entries(c.terms)) lhs += coefficient * (features[name] ?? 0);
+    violation += c.op === "<=" ? Math.max(0, lhs - c.value) : Math.max(0, c.value - lhs);
+  }
+  return violation;
+}
+
+/**
+ * Searches raw feature values jointly for the highest prediction that
+ * satisfies bounds, locked features and linear constraints. `predict` scores a
+ * full raw feature object (normalization and encoding happen inside it), so the
+ * same search works for any model. Linear models use cyclic coordinate search
+ * with a grid line search per feature (plus shared steps for constrained
+ * pairs); tree models use seeded random search
+ * that shrinks around the best point. Candidates are ranked by constraint
+ * violation first, so an infeasible starting point is first pulled back into
+ * the feasible region.
+ */
+export function optimizeFeaturesConstrained(
+  currentFeatures: Record<string, number>,
+  predict: (features: Record<string, number>) => number,
+  searchBounds: FeatureBounds,
+  modelType: string,
+  request: ConstrainedOptimizationRequest = {}
+): ConstrainedOptimizationResult {
+  const constraints = request.constraints ?? [];
+  const locked = new Set(request.locked ?? []);
+  const maxEvaluations = request.maxEvaluations ?? DEFAULT_OPTIMIZER_EVALUATIONS;
+  const seed = request.seed ?? DEFAULT_OPTIMIZER_SEED;
+  const method = modelType === "gradient_boosted_trees" ? "random_search" : "coordinate_search";
+
+  const free = Object.keys(searchBounds).filter((name) => !locked.has(name));
+  const bounds: FeatureBounds = {};
+  for (const name of free) bounds[name] = request.bounds?.[name] ?? searchBounds[name];
+
+  let evaluations = 0;
+  const evaluate = (features: Record<string, number>) => {
+    evaluations++;
+    return { features, prediction: predict(features), violation: constraintViolation(features, constraints) };
+  };
+  const better = (a: { prediction: number; violation: number }, b: { prediction: number; violation: number }) =>
+    a.violation < b.violation - 1e-12 || (Math.abs(a.violation - b.violation) <= 1e-12 && a.prediction > b.prediction + 1e-12);
+
+  const start = evaluate({ ...currentFeatures });
+  let best = start;
+
+  if (method === "coordinate_search") {
+    // Features tied by a constraint also move together by a shared step, so
+    // e.g. setup can grow past punchline's old value when punchline moves too.
+    const pairs: Array<[string, string]> = [];
+    for (const c of constraints) {
+      const names = Object.keys(c.terms).filter((name) => name in bounds);
+      for (let i = 0; i < names.length; i++) {
+        for (let j = i + 1; j < names.length; j++) pairs.push([names[i], names[j]]);
+      }
+    }
+    const inBounds = (name: string, value: number) => value >= bounds[name].min && value <= bounds[name].max;
+
+    let improved = true;
+    while (improved && evaluations < maxEvaluations) {
+      improved = false;
+      for (const name of free) {
+        const { min, max } = bounds[name];
+        for (let g = 0; g < GRID_POINTS && evaluations < maxEvaluations; g++) {
+          const value = min + ((max - min) * g) / (GRID_POINTS - 1);
+          if (value === best.features[name]) continue;
+          const candidate = evaluate({ ...best.features, [name]: value });
+          if (better(candidate, best)) {
+            best = candidate;
+            improved = true;
+          }
+        }
+      }
+      for (const [a, b] of pairs) {
+        const step = Math.min(bounds[a].max - bounds[a].min, bounds[b].max - bounds[b].min) / (GRID_POINTS - 1);
+        if (step <= 0) continue;
+        for (let k = -(GRID_POINTS - 1); k < GRID_POINTS && evaluations < maxEvaluations; k++) {
+          if (k === 0) continue;
+          const valueA = (best.features[a] ?? 0) + k * step;
+          const valueB = (best.features[b] ?? 0) + k * step;
+          if (!inBounds(a, valueA) || !inBounds(b, valueB)) continue;
+          const candidate = evaluate({ ...best.features, [a]: valueA, [b]: valueB });
+          if (better(candidate, best)) {
+            best = candidate;
+            improved = true;
+          }
+        }
+      }
+    }
+  } else {
+    const random = mulberry32(seed);
+    let radius = 1;
+    const rounds = 5;
+    const perRound = Math.max(1, Math.floor((maxEvaluations - 1) / rounds));
+    for (let round = 0; round < rounds && evaluations < maxEvaluations; round++) {
+      const center = best.features;
+      for (let i = 0; i < perRound && evaluations < maxEvaluations; i++) {
+        const candidateFeatures = { ...center };
+        for (const name of free) {
+          const { min, max } = bounds[name];
+          const span = (max - min) * radius;
+          const low = Math.max(min, (center[name] ?? min) - span / 2);
+          const high = Math.min(max, low + span);
+          candidateFeatures[name] = radius >= 1 ? min + random() * (max - min) : low + random() * (high - low);
+        }
+        const candidate = evaluate(candidateFeatures);
+        if (better(candidate, best)) best = candidate;
+      }
+      radius /= 2;
+    }
+  }
+
+  const changes: FeatureChange[] = free
+    .map((featureName) => {
+      const currentValue = currentFeatures[featureName] ?? 0;
+      const targetValue = best.features[featureName] ?? 0;
+      return {
+        featureName,
+        currentValue,
+        targetValue,
+        delta: targetValue - currentValue,
+        instruction: describeFeatureChange(featureName, currentValue, targetValue),
+      };
+    })
+    .filter((c) => c.delta !== 0);
+
+  const predictedLift = best.prediction - start.prediction;
+  return {
+    method,
+    currentPrediction: start.prediction,
+    optimizedPrediction: best.prediction,
+    predictedLift,
+    liftPercent: start.prediction !== 0 ? (predictedLift / start.prediction) * 100 : 0,
+    feasible: best.violation <= 1e-9,
+    targetFeatures: best.features,
+    changes,
+    evaluations,
+    seed,
+  };
+}
+
 export function generateOptimizationReport(result: OptimizationResult): string {
   if (result.suggestions.length === 0) {
     return (
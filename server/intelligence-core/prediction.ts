@@ -1,118 +1,441 @@
-import crypto from "crypto";
 import { db } from "../db";
-import { modelSnapshots, predictionLogs } from "@shared/schema";
-import { eq, desc } from "drizzle-orm";
-import { predict, classifyTier } from "./model-training";
+import {
+  modelSnapshots,
+  patternModels,
+  predictionLogs,
+  validationAmendments,
+  type ModelSnapshot,
+  type PatternModel,
+} from "@shared/schema";
+import { eq, and, desc, isNotNull, sql } from "drizzle-orm";
+import {
+  scorePredictionOutcome,
+  loadScoringModel,
+  loadTierThresholds,
+  classifyTier,
+  predictInterval,
+  DEFAULT_INTERVAL_LEVEL,
+  type PredictionInterval,
+  type ScoringModel,
+  type TierThresholds,
+  type UncertaintyArtifact,
+} from "./model-training";
+import { scoreChallengers, validateShadowPredictions } from "./shadow-scoring";
+import { getModelTierThresholds } from "./tier-config";
+import { recordExperimentOutcome } from "./experiments";
+import { transitionSnapshot, getSnapshotOrThrow, resolveSnapshotState, SnapshotLifecycleError } from "./snapshot-lifecycle";
+import { checkpointCondition, FINAL_CHECKPOINT, type ValidationCheckpoint } from "./checkpoints";
+import { canonicalJson, hashSnapshotPayload, verifySnapshotChain, type SnapshotPayload } from "./snapshot-integrity";
+import { prepareModelFeatures, type CategoryValues, type CategoricalEncoder, type FeatureStats } from "./feature-engineering";
+
+export interface SnapshotOptions {
+  /**
+   * Un-normalized features behind the snapshot. When given, challenger models
+   * re-normalize them with their own frozen stats and score in shadow mode.
+   */
+  rawFeatures?: Record<string, number>;
+  /** Raw category labels behind the snapshot; each challenger encodes them with its own vocabulary. */
+  categories?: CategoryValues;
+  /** Per-input interval and tier probabilities, saved alongside the point estimate. */
+  interval?: PredictionInterval | null;
+  /** Seed of the PRNG stream behind any random decision tied to this snapshot; covered by the hash. */
+  seed?: number;
+}
+
+export const MAX_BATCH_PREDICTIONS = 500;
+
+export interface ScoredFeatures {
+  featureVector: number[];
+  normalizedFeatures: Record<string, number>;
+  predictedValue: number;
+  predictedTier: string;
+  confidence: number;
+  interval: PredictionInterval | null;
+  tierThresholds: TierThresholds;
+}
+
+/**
+ * Scores one input with a model's frozen stats, encoders and thresholds
+ * without writing anything. The caller decides whether to lock a snapshot.
+ * The model must have featureStats.
+ */
+export function scoreFeatures(
+  model: PatternModel,
+  scorer: ScoringModel,
+  features: Record<string, number>,
+  categories: CategoryValues | undefined,
+  intervalLevel: number = DEFAULT_INTERVAL_LEVEL
+): ScoredFeatures {
+  const normalizedFeatures = prepareModelFeatures(
+    features,
+    categories,
+    model.featureStats as Record<string, FeatureStats>,
+    model.categoricalEncoders as Record<string, CategoricalEncoder> | null
+  );
+  const featureVector = scorer.featureNames.map((name) => normalizedFeatures[name] ?? 0);
+
+  const predictedValue = scorer.predict(featureVector);
+  const tierThresholds = loadTierThresholds(model.tierThresholds);
+  const predictedTier = classifyTier(predictedValue, tierThresholds);
+  const interval = predictInterval(
+    scorer,
+    model.uncertaintyArtifact as UncertaintyArtifact | null,
+    featureVector,
+    intervalLevel,
+    tierThresholds
+  );
+  // Probability that the realized value lands in the predicted tier; models
+  // trained before intervals were stored fall back to their test R².
+  const confidence = interval ? interval.tierProbabilities[predictedTier] ?? 0 : model.rSquared ?? 0;
+
+  return { featureVector, normalizedFeatures, predictedValue, predictedTier, confidence, interval, tierThresholds };
+}
 
 export async function createPredictionSnapshot(
   datasetId: string,
   modelId: string,
   featureVector: number[],
-  coefficients: number[],
+  modelParameters: unknown,
   predictedValue: number,
   predictedTier: string,
   confidence: number,
   sourceId?: string,
-  sourceType?: string
+  sourceType?: string,
+  options: SnapshotOptions = {}
 ) {
-  const timestamp = new Date().toISOString();
-  const hashSignature = crypto
-    .createHash("sha256")
-    .update(JSON.stringify({ featureVector, coefficients, predictedValue, timestamp }))
-    .digest("hex");
+  // Snapshots are appended to a per-dataset hash chain. The advisory lock
+  // serializes appends so two concurrent predictions can't fork the chain.
+  const snapshot = await db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${datasetId}))`);
+    const [last] = await tx
+      .select({ hashSignature: modelSnapshots.hashSignature, chainIndex: modelSnapshots.chainIndex })
+      .from(modelSnapshots)
+      .where(and(eq(modelSnapshots.datasetId, datasetId), isNotNull(modelSnapshots.chainIndex)))
+      .orderBy(desc(modelSnapshots.chainIndex))
+      .limit(1);
 
-  const [snapshot] = await db
-    .insert(modelSnapshots)
-    .values({
+    const payload: SnapshotPayload = {
       datasetId,
       modelId,
       featureVector,
-      coefficientsUsed: coefficients,
+      coefficients: modelParameters,
       predictedValue,
       predictedTier,
       confidence,
-      hashSignature,
-      isLocked: true,
+      predictionLower: options.interval?.lower ?? null,
+      predictionUpper: options.interval?.upper ?? null,
+      seed: options.seed ?? null,
       sourceId: sourceId || null,
       sourceType: sourceType || null,
-    })
-    .returning();
+      timestamp: new Date().toISOString(),
+      chainIndex: (last?.chainIndex ?? 0) + 1,
+      previousHash: last?.hashSignature ?? null,
+    };
+    const hashPayload = canonicalJson(payload);
+
+    const [inserted] = await tx
+      .insert(modelSnapshots)
+      .values({
+        datasetId,
+        modelId,
+        featureVector,
+        coefficientsUsed: modelParameters,
+        predictedValue,
+        predictedTier,
+        confidence,
+        predictionLower: payload.predictionLower,
+        predictionUpper: payload.predictionUpper,
+        intervalLevel: options.interval?.level ?? null,
+        tierProbabilities: options.interval?.tierProbabilities ?? null,
+        seed: payload.seed,
+        hashSignature: hashSnapshotPayload(hashPayload),
+        hashPayload,
+        previousHash: payload.previousHash,
+        chainIndex: payload.chainIndex,
+        isLocked: true,
+        sourceId: payload.sourceId,
+        sourceType: payload.sourceType,
+      })
+      .returning();
+    return inserted;
+  });
+
+  if (options.rawFeatures) {
+    try {
+      await scoreChallengers(snapshot, options.rawFeatures, options.categories);
+    } catch (shadowError) {
+      console.log("[Intelligence Core] Shadow scoring skipped:", (shadowError as Error).message);
+    }
+  }
 
   return snapshot;
 }
 
-export async function confirmUpload(snapshotId: string) {
-  const [updated] = await db
-    .update(modelSnapshots)
-    .set({
-      uploadConfirmed: true,
-      uploadConfirmedAt: new Date(),
-      performanceTrackingStarted: true,
-    })
+/** Recomputes a snapshot's hash and checks its links to its chain neighbours; null if not found. */
+export async function verifySnapshot(snapshotId: string) {
+  const [snapshot] = await db
+    .select()
+    .from(modelSnapshots)
     .where(eq(modelSnapshots.id, snapshotId))
-    .returning();
+    .limit(1);
+
+  if (!snapshot) return null;
+
+  const neighbour = async (chainIndex: number) => {
+    const [row] = await db
+      .select()
+      .from(modelSnapshots)
+      .where(and(eq(modelSnapshots.datasetId, snapshot.datasetId), eq(modelSnapshots.chainIndex, chainIndex)))
+      .limit(1);
+    return row ?? null;
+  };
+
+  const previous = snapshot.chainIndex !== null && snapshot.chainIndex > 1 ? await neighbour(snapshot.chainIndex - 1) : null;
+  const next = snapshot.chainIndex !== null ? await neighbour(snapshot.chainIndex + 1) : null;
+  return verifySnapshotChain(snapshot, previous, next);
+}
+
+export async function confirmUpload(snapshotId: string) {
+  return transitionSnapshot(snapshotId, "upload_confirmed", {
+    uploadConfirmed: true,
+    uploadConfirmedAt: new Date(),
+  });
+}
+
+export async function startTracking(snapshotId: string) {
+  return transitionSnapshot(snapshotId, "tracking", {
+    performanceTrackingStarted: true,
+    trackingStartedAt: new Date(),
+  });
+}
+
+/**
+ * Records the realized value of a tracked snapshot at one checkpoint. Each
+ * checkpoint is recorded at most once and gets its own prediction log. The
+ * final checkpoint also moves the snapshot to validated, in the same
+ * transaction as its log insert, and is the only one credited to shadow
+ * models and experiments.
+ */
+export async function validatePrediction(
+  snapshotId: string,
+  actualValue: number,
+  checkpoint: ValidationCheckpoint = FINAL_CHECKPOINT
+) {
+  const { snapshot, log, outcome, tierThresholds } = await db.transaction(async (tx) => {
+    // Row lock so two requests can't both record the same checkpoint.
+    const [locked] = await tx
+      .select()
+      .from(modelSnapshots)
+      .where(eq(modelSnapshots.id, snapshotId))
+      .for("update");
+    if (!locked) {
+      throw new SnapshotLifecycleError("Snapshot not found", 404);
+    }
+    const [recorded] = await tx
+      .select({ id: predictionLogs.id })
+      .from(predictionLogs)
+      .where(and(eq(predictionLogs.snapshotId, snapshotId), checkpointCondition(checkpoint)))
+      .limit(1);
+    if (recorded) {
+      throw new SnapshotLifecycleError(`Checkpoint ${checkpoint} is already recorded. Amend it to correct it.`);
+    }
+
+    let snapshot: ModelSnapshot = locked;
+    if (checkpoint === FINAL_CHECKPOINT) {
+      snapshot = await transitionSnapshot(snapshotId, "validated", { validatedAt: new Date() }, tx);
+    } else {
+      const state = await resolveSnapshotState(locked, tx);
+      if (state !== "tracking") {
+        throw new SnapshotLifecycleError(`Checkpoint ${checkpoint} can only be recorded while tracking; this snapshot is ${state}`);
+      }
+    }
+
+    const tierThresholds = await getModelTierThresholds(snapshot.modelId);
+    const outcome = scorePredictionOutcome(snapshot.predictedValue, snapshot.predictedTier, actualValue, tierThresholds);
+
+    const [log] = await tx
+      .insert(predictionLogs)
+      .values({
+        snapshotId,
+        datasetId: snapshot.datasetId,
+        modelId: snapshot.modelId || "",
+        checkpoint,
+        predictedValue: snapshot.predictedValue,
+        predictedTier: snapshot.predictedTier,
+        actualValue,
+        ...outcome,
+        validatedAt: new Date(),
+      })
+      .returning();
+
+    return { snapshot, log, outcome, tierThresholds };
+  });
+
+  const final = checkpoint === FINAL_CHECKPOINT;
+  const shadow = final ? await validateShadowPredictions(snapshotId, actualValue) : [];
+  const experiments = final ? await recordExperimentOutcome(snapshotId, actualValue, tierThresholds) : [];
+
+  return {
+    log,
+    shadow,
+    experiments,
+    checkpoint,
+    final,
+    predicted: snapshot.predictedValue,
+    actualValue,
+    ...outcome,
+  };
+}
+
+/**
+ * Corrects the realized value recorded at a checkpoint. The prediction log is
+ * re-scored in place and the correction is kept as an amendment record, so the
+ * original value and the reason for changing it stay auditable. Amending the
+ * final checkpoint requires a validated snapshot and re-credits shadow models
+ * and experiments.
+ */
+export async function amendValidation(
+  snapshotId: string,
+  actualValue: number,
+  reason: string,
+  amendedBy?: string,
+  checkpoint: ValidationCheckpoint = FINAL_CHECKPOINT
+) {
+  const final = checkpoint === FINAL_CHECKPOINT;
+  const { log, amendment, tierThresholds } = await db.transaction(async (tx) => {
+    const snapshot = await getSnapshotOrThrow(snapshotId, tx);
+    const state = await resolveSnapshotState(snapshot, tx);
+    if (final && state !== "validated") {
+      throw new SnapshotLifecycleError(`Only validated snapshots can be amended; this one is ${state}`);
+    }
+
+    const [existing] = await tx
+      .select()
+      .from(predictionLogs)
+      .where(and(eq(predictionLogs.snapshotId, snapshotId), checkpointCondition(checkpoint)))
+      .orderBy(desc(predictionLogs.createdAt))
+      .limit(1);
+    if (!existing) {
+      throw new SnapshotLifecycleError(`Snapshot has no ${checkpoint} prediction log to amend`);
+    }
 
-  return updated;
+    const tierThresholds = await getModelTierThresholds(snapshot.modelId);
+    const outcome = scorePredictionOutcome(snapshot.predictedValue, snapshot.predictedTier, actualValue, tierThresholds);
+    const [log] = await tx
+      .update(predictionLogs)
+      .set({ actualValue, ...outcome })
+      .where(eq(predictionLogs.id, existing.id))
+      .returning();
+
+    const [amendment] = await tx
+      .insert(validationAmendments)
+      .values({
+        snapshotId,
+        predictionLogId: existing.id,
+        previousActualValue: existing.actualValue,
+        actualValue,
+        reason,
+        amendedBy: amendedBy ?? null,
+      })
+      .returning();
+
+    return { log, amendment, tierThresholds };
+  });
+
+  const shadow = final ? await validateShadowPredictions(snapshotId, actualValue) : [];
+  const experiments = final ? await recordExperimentOutcome(snapshotId, actualValue, tierThresholds) : [];
+  return { log, amendment, checkpoint, shadow, experiments };
+}
+
+export async function listAmendments(snapshotId: string) {
+  return db
+    .select()
+    .from(validationAmendments)
+    .where(eq(validationAmendments.snapshotId, snapshotId))
+    .orderBy(desc(validationAmendments.createdAt));
+}
+
+export interface FeatureContribution {
+  featureName: string;
+  value: number;
+  contribution: number;
 }
 
-export async function validatePrediction(snapshotId: string, actualValue: number) {
+/**
+ * Breaks a locked snapshot into additive per-feature contributions, scored
+ * from the parameters recorded on the snapshot itself. `explainable` is false
+ * for tree models trained before node means were stored.
+ */
+export async function explainSnapshot(snapshotId: string) {
   const [snapshot] = await db
     .select()
     .from(modelSnapshots)
     .where(eq(modelSnapshots.id, snapshotId))
     .limit(1);
 
-  if (!snapshot) {
-    throw new Error("Snapshot not found");
+  if (!snapshot) return null;
+
+  const [model] = snapshot.modelId
+    ? await db.select().from(patternModels).where(eq(patternModels.id, snapshot.modelId)).limit(1)
+    : [];
+
+  if (!model) {
+    throw new Error("Model behind this snapshot no longer exists");
   }
 
-  const predicted = snapshot.predictedValue;
-  const error = predicted - actualValue;
-  const absoluteError = Math.abs(error);
-  const directionallyCorrect = (predicted >= 0.5 && actualValue >= 0.5) || (predicted < 0.5 && actualValue < 0.5);
-  const actualTier = classifyTier(actualValue);
-  const tierCorrect = (snapshot.predictedTier || classifyTier(predicted)) === actualTier;
-
-  const [log] = await db
-    .insert(predictionLogs)
-    .values({
-      snapshotId,
-      datasetId: snapshot.datasetId,
-      modelId: snapshot.modelId || "",
-      predictedValue: predicted,
-      predictedTier: snapshot.predictedTier,
-      actualValue,
-      actualTier,
-      error,
-      absoluteError,
-      directionallyCorrect,
-      tierCorrect,
-      validatedAt: new Date(),
-    })
-    .returning();
+  const scorer = loadScoringModel({
+    modelType: model.modelType,
+    featureNames: model.featureNames,
+    coefficients: snapshot.coefficientsUsed,
+    intercept: model.intercept,
+    modelArtifact: snapshot.coefficientsUsed,
+  });
+  const featureVector = snapshot.featureVector as number[];
+  const explanation = scorer.explain(featureVector);
+
+  const contributions: FeatureContribution[] = explanation
+    ? scorer.featureNames
+        .map((featureName, i) => ({
+          featureName,
+          value: featureVector[i] ?? 0,
+          contribution: explanation.contributions[i] ?? 0,
+        }))
+        .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+    : [];
 
   return {
-    log,
-    predicted,
-    actualValue,
-    error,
-    absoluteError,
-    directionallyCorrect,
-    tierCorrect,
-    actualTier,
+    snapshotId: snapshot.id,
+    modelId: model.id,
+    modelType: scorer.modelType,
+    predictedValue: snapshot.predictedValue,
+    predictedTier: snapshot.predictedTier,
+    explainable: explanation !== null,
+    baseValue: explanation?.baseValue ?? null,
+    contributions,
+    detractors: contributions
+      .filter((c) => c.contribution < 0)
+      .sort((a, b) => a.contribution - b.contribution)
+      .slice(0, 3)
+      .map((c) => c.featureName),
   };
 }
 
-export async function getRollingAccuracy(datasetId: string, windowSize: number = 20) {
+/** Accuracy over the latest validated logs at one checkpoint horizon (final by default). */
+export async function getRollingAccuracy(
+  datasetId: string,
+  windowSize: number = 20,
+  checkpoint: ValidationCheckpoint = FINAL_CHECKPOINT
+) {
   const logs = await db
     .select()
     .from(predictionLogs)
-    .where(eq(predictionLogs.datasetId, datasetId))
+    .where(and(eq(predictionLogs.datasetId, datasetId), checkpointCondition(checkpoint)))
     .orderBy(desc(predictionLogs.createdAt))
     .limit(windowSize);
 
   if (logs.length === 0) {
     return {
+      checkpoint,
       directionalAccuracy: 0,
       tierAccuracy: 0,
       meanAbsoluteError: 0,
@@ -123,6 +446,7 @@ export async function getRollingAccuracy(datasetId: string, windowSize: number =
   const validatedLogs = logs.filter((l) => l.actualValue !== null);
   if (validatedLogs.length === 0) {
     return {
+      checkpoint,
       directionalAccuracy: 0,
       tierAccuracy: 0,
       meanAbsoluteError: 0,
@@ -141,6 +465,7 @@ export async function getRollingAccuracy(datasetId: string, windowSize: number =
   }
 
   return {
+    checkpoint,
     directionalAccuracy: directionalCount / validatedLogs.length,
     tierAccuracy: tierCount / validatedLogs.length,
     meanAbsoluteError: totalAbsError / validatedLogs.length,
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { createSeededRandom, generateSeed, mulberry32, parseSeed } from "./random";
+
+describe("mulberry32", () => {
+  it("produces the same stream for the same seed", () => {
+    const a = mulberry32(123);
+    const b = mulberry32(123);
+    for (let i = 0; i < 20; i++) expect(a()).toBe(b());
+  });
+
+  it("produces different streams for different seeds", () => {
+    expect(mulberry32(1)()).not.toBe(mulberry32(2)());
+  });
+
+  it("draws from [0, 1)", () => {
+    const next = mulberry32(0);
+    for (let i = 0; i < 1000; i++) {
+      const value = next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe("createSeededRandom", () => {
+  it("keeps the seed it was created with", () => {
+    expect(createSeededRandom(77).seed).toBe(77);
+  });
+
+  it("draws integers within range with every value reachable", () => {
+    const rng = createSeededRandom(5);
+    const counts = new Array(6).fill(0);
+    for (let i = 0; i < 6000; i++) {
+      const value = rng.int(6);
+      expect(Number.isInteger(value)).toBe(true);
+      counts[value]++;
+    }
+    // Each face expects 1000 draws; a fair generator stays well inside ±200.
+    for (const count of counts) expect(Math.abs(count - 1000)).toBeLessThan(200);
+  });
+
+  it("returns 0 for degenerate integer ranges", () => {
+    const rng = createSeededRandom(5);
+    expect(rng.int(1)).toBe(0);
+    expect(rng.int(0)).toBe(0);
+  });
+
+  it("shuffles into a new permutation without touching the input", () => {
+    const items = [1, 2, 3, 4, 5, 6, 7, 8];
+    const shuffled = createSeededRandom(9).shuffle(items);
+
+    expect(items).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(items);
+    expect(createSeededRandom(9).shuffle(items)).toEqual(shuffled);
+  });
+
+  it("places every item in every position about equally often", () => {
+    const rng = createSeededRandom(21);
+    const firsts = [0, 0, 0];
+    for (let i = 0; i < 3000; i++) firsts[rng.shuffle(["a", "b", "c"]).indexOf("a")]++;
+    for (const count of firsts) expect(Math.abs(count - 1000)).toBeLessThan(150);
+  });
+});
+
+describe("generateSeed", () => {
+  it("returns an unsigned 32-bit integer", () => {
+    const seed = generateSeed();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(2 ** 32);
+  });
+});
+
+describe("parseSeed", () => {
+  it("treats missing values as no seed", () => {
+    expect(parseSeed(undefined)).toBeUndefined();
+    expect(parseSeed(null)).toBeUndefined();
+    expect(parseSeed("")).toBeUndefined();
+  });
+
+  it("accepts unsigned 32-bit integers as numbers or strings", () => {
+    expect(parseSeed(0)).toBe(0);
+    expect(parseSeed("4294967295")).toBe(4294967295);
+  });
+
+  it.each([-1, 2 ** 32, 1.5, "abc", true])("rejects %s", (value) => {
+    expect(parseSeed(value)).toBe("seed must be an integer between 0 and 4294967295");
+  });
+});
@@ -0,0 +1,76 @@
+import crypto from "crypto";
+
+// ============================================================================
+// Seeded Randomness
+// ============================================================================
+
+/**
+ * Every random decision that feeds an experiment or snapshot draws from a
+ * SeededRandom whose seed is stored with the result, so the decision can be
+ * replayed exactly from the stored seed and inputs.
+ */
+export interface SeededRandom {
+  seed: number;
+  /** Uniform in [0, 1). */
+  next: () => number;
+  /** Uniform integer in [0, maxExclusive). */
+  int: (maxExclusive: number) => number;
+  /** Fisher-Yates shuffle into a new array; the input is left untouched. */
+  shuffle: <T>(items: readonly T[]) => T[];
+}
+
+const SEED_RANGE = 0x100000000;
+
+// Small, fast 32-bit PRNG. Not cryptographic; used for reproducibility only.
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function generateSeed(): number {
+  return crypto.randomInt(0, SEED_RANGE);
+}
+
+/** Accepts an unsigned 32-bit integer seed; returns an error message otherwise. */
+export function parseSeed(value: unknown): number | undefined | string {
+  if (value === undefined || value === null || value === "") return undefined;
+  const seed = typeof value === "string" ? Number(value) : value;
+  if (typeof seed !== "number" || !Number.isInteger(seed) || seed < 0 || seed >= SEED_RANGE) {
+    return "seed must be an integer between 0 and 4294967295";
+  }
+  return seed;
+}
+
+export function createSeededRandom(seed: number = generateSeed()): SeededRandom {
+  const next = mulberry32(seed);
+
+  // Rejection sampling over 32-bit draws so every integer is equally likely.
+  const int = (maxExclusive: number): number => {
+    if (maxExclusive <= 1) return 0;
+    const limit = SEED_RANGE - (SEED_RANGE % maxExclusive);
+    let draw: number;
+    do {
+      draw = Math.floor(next() * SEED_RANGE);
+    } while (draw >= limit);
+    return draw % maxExclusive;
+  };
+
+  const shuffle = <T>(items: readonly T[]): T[] => {
+    const shuffled = items.slice();
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = int(i + 1);
+      const swap = shuffled[i];
+      shuffled[i] = shuffled[j];
+      shuffled[j] = swap;
+    }
+    return shuffled;
+  };
+
+  return { seed, next, int, shuffle };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { detectUploadFormat, parseCsv, parseJsonLines, parseRecordPayload } from "./record-ingestion";
+
+describe("parseCsv", () => {
+  it("coerces numbers, booleans, blanks and JSON cells", () => {
+    const rows = parseCsv('views,title,viral,notes,retention_curve\n1200,Launch,true,,"[1,0.8,0.5]"\n');
+    expect(rows).toEqual([
+      { row: 2, data: { views: 1200, title: "Launch", viral: true, notes: null, retention_curve: [1, 0.8, 0.5] } },
+    ]);
+  });
+
+  it("keeps commas and escaped quotes inside quoted cells", () => {
+    const [row] = parseCsv('title,views\n"Cats, dogs and ""birds""",10\n');
+    expect(row.data).toEqual({ title: 'Cats, dogs and "birds"', views: 10 });
+  });
+
+  it("keeps newlines inside quoted cells and reports the line each row starts on", () => {
+    const rows = parseCsv('title,views\r\n"first line\nsecond line",10\r\nnext,20\r\n');
+    expect(rows).toEqual([
+      { row: 2, data: { title: "first line\nsecond line", views: 10 } },
+      { row: 4, data: { title: "next", views: 20 } },
+    ]);
+  });
+
+  it("strips a byte order mark and skips blank lines", () => {
+    const rows = parseCsv("\uFEFFviews\n\n5\n\n6");
+    expect(rows.map((r) => r.data)).toEqual([{ views: 5 }, { views: 6 }]);
+  });
+
+  it("rejects rows with the wrong number of columns", () => {
+    const rows = parseCsv("a,b\n1,2,3\n4,5\n");
+    expect(rows[0]).toEqual({ row: 2, error: "Expected 2 columns, found 3" });
+    expect(rows[1]).toEqual({ row: 3, data: { a: 4, b: 5 } });
+  });
+
+  it("leaves malformed JSON cells as text", () => {
+    const [row] = parseCsv('curve\n"[1,2"\n');
+    expect(row.data).toEqual({ curve: "[1,2" });
+  });
+
+  it("returns no rows for empty content", () => {
+    expect(parseCsv("")).toEqual([]);
+  });
+});
+
+describe("parseJsonLines", () => {
+  it("reports invalid and non-object lines by line number", () => {
+    const rows = parseJsonLines('{"views":1}\n\n[1]\n{oops');
+    expect(rows[0]).toEqual({ row: 1, data: { views: 1 } });
+    expect(rows[1]).toEqual({ row: 3, error: "Line is not a JSON object" });
+    expect(rows[2].row).toBe(4);
+    expect(rows[2].error).toMatch(/^Invalid JSON/);
+  });
+});
+
+describe("detectUploadFormat", () => {
+  it("prefers the explicit format over the content type", () => {
+    expect(detectUploadFormat("application/json", "csv")).toBe("csv");
+    expect(detectUploadFormat(undefined, "ndjson")).toBe("jsonl");
+    expect(detectUploadFormat("text/csv; charset=utf-8")).toBe("csv");
+    expect(detectUploadFormat("application/x-ndjson")).toBe("jsonl");
+    expect(detectUploadFormat("application/json")).toBe("json");
+    expect(detectUploadFormat("text/plain")).toBeNull();
+  });
+});
+
+describe("parseRecordPayload", () => {
+  it("requires JSON payloads to be arrays and text formats to be strings", () => {
+    expect(() => parseRecordPayload("json", { views: 1 })).toThrow("JSON payload must be an array of records");
+    expect(() => parseRecordPayload("csv", [{ views: 1 }])).toThrow("CSV payload must be sent as text");
+    expect(parseRecordPayload("json", '[{"views":1}, 2]')).toEqual([
+      { row: 1, data: { views: 1 } },
+      { row: 2, error: "Row is not a JSON object" },
+    ]);
+  });
+});
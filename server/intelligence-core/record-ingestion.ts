@@ -0,0 +1,361 @@
+import { db } from "../db";
+import { datasets, datasetRecords, type Dataset } from "@shared/schema";
+import { eq, and, sql } from "drizzle-orm";
+import {
+  extractFeaturesForRecord,
+  buildExtractionContext,
+  type ExtractionContext,
+} from "./feature-engineering";
+import { classifyTier } from "./model-training";
+import { resolveDatasetTierThresholds, reclassifyDatasetRecords } from "./tier-config";
+import { parseCheckpointTargets } from "./checkpoints";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RecordUploadFormat = "json" | "jsonl" | "csv";
+
+export interface ParsedRow {
+  row: number;
+  data?: Record<string, any>;
+  error?: string;
+}
+
+export interface RowReport {
+  row: number;
+  status: "accepted" | "rejected";
+  recordId?: string;
+  targetValue?: number;
+  tierClassification?: string;
+  reason?: string;
+}
+
+export interface IngestionReport {
+  datasetId: string;
+  format: RecordUploadFormat;
+  totalRows: number;
+  acceptedCount: number;
+  rejectedCount: number;
+  recordCount: number;
+  rows: RowReport[];
+}
+
+export const MAX_ROWS_PER_UPLOAD = 5000;
+
+// ============================================================================
+// Payload Parsing
+// ============================================================================
+
+export function detectUploadFormat(contentType: string | undefined, explicit?: string): RecordUploadFormat | null {
+  const format = (explicit || "").toLowerCase();
+  if (format === "json" || format === "jsonl" || format === "csv") return format;
+  if (format === "ndjson") return "jsonl";
+
+  const type = (contentType || "").toLowerCase();
+  if (type.includes("csv")) return "csv";
+  if (type.includes("ndjson") || type.includes("jsonl")) return "jsonl";
+  if (type.includes("json")) return "json";
+  return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function parseJsonRows(rows: unknown[]): ParsedRow[] {
+  return rows.map((item, index) =>
+    isPlainObject(item)
+      ? { row: index + 1, data: item }
+      : { row: index + 1, error: "Row is not a JSON object" }
+  );
+}
+
+export function parseJsonLines(content: string): ParsedRow[] {
+  const parsed: ParsedRow[] = [];
+  const lines = content.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    try {
+      const value = JSON.parse(line);
+      parsed.push(
+        isPlainObject(value)
+          ? { row: i + 1, data: value }
+          : { row: i + 1, error: "Line is not a JSON object" }
+      );
+    } catch (err: any) {
+      parsed.push({ row: i + 1, error: `Invalid JSON: ${err.message}` });
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180: quoted fields, escaped quotes,
+ * newlines inside quotes). Returns the physical line each row started on.
+ */
+function tokenizeCsv(content: string): Array<{ line: number; cells: string[] }> {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowStartLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== "") {
+      rows.push({ line: rowStartLine, cells });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (content[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (ch === "\n") line++;
+        cell += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && content[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowStartLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+
+  if (cell !== "" || cells.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * CSV cells arrive as strings. Numbers are coerced so extractors can do math,
+ * and JSON arrays/objects (e.g. retention_curve) are expanded in place.
+ */
+function coerceCsvValue(raw: string): any {
+  const value = raw.trim();
+  if (value === "") return null;
+  if ((value.startsWith("[") && value.endsWith("]")) || (value.startsWith("{") && value.endsWith("}"))) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  if (value === "true") return true;
+  if (value === "false") return false;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : value;
+}
+
+export function parseCsv(content: string): ParsedRow[] {
+  const rows = tokenizeCsv(content.replace(/^\uFEFF/, ""));
+  if (rows.length === 0) return [];
+
+  const headers = rows[0].cells.map((h) => h.trim());
+  const parsed: ParsedRow[] = [];
+
+  for (const { line, cells } of rows.slice(1)) {
+    if (cells.length !== headers.length) {
+      parsed.push({ row: line, error: `Expected ${headers.length} columns, found ${cells.length}` });
+      continue;
+    }
+    const data: Record<string, any> = {};
+    headers.forEach((header, index) => {
+      if (header) data[header] = coerceCsvValue(cells[index]);
+    });
+    parsed.push({ row: line, data });
+  }
+
+  return parsed;
+}
+
+export function parseRecordPayload(format: RecordUploadFormat, payload: unknown): ParsedRow[] {
+  if (format === "json") {
+    if (typeof payload === "string") {
+      const value = JSON.parse(payload);
+      if (!Array.isArray(value)) throw new Error("JSON payload must be an array of records");
+      return parseJsonRows(value);
+    }
+    if (!Array.isArray(payload)) throw new Error("JSON payload must be an array of records");
+    return parseJsonRows(payload);
+  }
+
+  if (typeof payload !== "string") {
+    throw new Error(`${format.toUpperCase()} payload must be sent as text`);
+  }
+  return format === "csv" ? parseCsv(payload) : parseJsonLines(payload);
+}
+
+// ============================================================================
+// Dataset Helpers
+// ============================================================================
+
+/** Every active record of the dataset as history, for extracting features of a new input. */
+export async function loadExtractionContext(datasetId: string, datasetType: string): Promise<ExtractionContext> {
+  const records = await db
+    .select()
+    .from(datasetRecords)
+    .where(and(eq(datasetRecords.datasetId, datasetId), eq(datasetRecords.isActive, true)));
+
+  return buildExtractionContext(
+    datasetType,
+    records.map((r) => ({ rawData: r.rawFeatures ?? {}, targetValue: r.targetValue, createdAt: r.createdAt }))
+  );
+}
+
+export async function syncDatasetRecordCount(datasetId: string): Promise<number> {
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(datasetRecords)
+    .where(and(eq(datasetRecords.datasetId, datasetId), eq(datasetRecords.isActive, true)));
+
+  const recordCount = Number(count ?? 0);
+  await db
+    .update(datasets)
+    .set({ recordCount, updatedAt: new Date() })
+    .where(eq(datasets.id, datasetId));
+
+  return recordCount;
+}
+
+// ============================================================================
+// Ingestion
+// ============================================================================
+
+function validateExtraction(
+  datasetType: string,
+  data: Record<string, any>
+): { features: Record<string, number>; target: number } | string {
+  let result: { features: Record<string, number>; target: number } | null;
+  try {
+    result = extractFeaturesForRecord(datasetType, data);
+  } catch (err: any) {
+    return `Feature extraction failed: ${err.message}`;
+  }
+  if (!result) return `No feature extractor registered for dataset type "${datasetType}"`;
+
+  const invalid = Object.entries(result.features)
+    .filter(([, value]) => !Number.isFinite(value))
+    .map(([name]) => name);
+  if (invalid.length > 0) return `Non-numeric feature values: ${invalid.join(", ")}`;
+  if (!Number.isFinite(result.target)) return "Target value is missing or not numeric";
+
+  return result;
+}
+
+export async function ingestRecords(
+  dataset: Dataset,
+  format: RecordUploadFormat,
+  rows: ParsedRow[],
+  source?: { sourceType?: string }
+): Promise<IngestionReport> {
+  const report: RowReport[] = [];
+  const accepted: Array<{ row: number; data: Record<string, any>; target: number }> = [];
+
+  const seenSourceIds = new Set<string>();
+
+  for (const parsed of rows) {
+    if (parsed.error || !parsed.data) {
+      report.push({ row: parsed.row, status: "rejected", reason: parsed.error || "Empty row" });
+      continue;
+    }
+    const result = validateExtraction(dataset.datasetType, parsed.data);
+    if (typeof result === "string") {
+      report.push({ row: parsed.row, status: "rejected", reason: result });
+      continue;
+    }
+    // A sourceId identifies one upstream row; a later duplicate in the same
+    // upload would collide with the first on the unique source index.
+    if (parsed.data.sourceId != null) {
+      const sourceId = String(parsed.data.sourceId);
+      if (seenSourceIds.has(sourceId)) {
+        report.push({ row: parsed.row, status: "rejected", reason: `Duplicate sourceId "${sourceId}" in upload` });
+        continue;
+      }
+      seenSourceIds.add(sourceId);
+    }
+    accepted.push({ row: parsed.row, data: parsed.data, target: result.target });
+  }
+
+  if (accepted.length > 0) {
+    const thresholds = await resolveDatasetTierThresholds(dataset, accepted.map((a) => a.target));
+    const inserted = await db
+      .insert(datasetRecords)
+      .values(
+        accepted.map((a) => ({
+          datasetId: dataset.id,
+          sourceId: a.data.sourceId != null ? String(a.data.sourceId) : null,
+          sourceType: source?.sourceType || `upload_${format}`,
+          rawFeatures: a.data,
+          targetValue: a.target,
+          checkpointTargets: parseCheckpointTargets(a.data),
+          tierClassification: classifyTier(a.target, thresholds),
+          isActive: true,
+        }))
+      )
+      // Re-uploading a row with a known sourceId replaces it instead of adding a copy.
+      .onConflictDoUpdate({
+        target: [datasetRecords.datasetId, datasetRecords.sourceType, datasetRecords.sourceId],
+        set: {
+          rawFeatures: sql`excluded.raw_features`,
+          targetValue: sql`excluded.target_value`,
+          checkpointTargets: sql`excluded.checkpoint_targets`,
+          tierClassification: sql`excluded.tier_classification`,
+          isActive: true,
+        },
+      })
+      .returning();
+
+    inserted.forEach((record, index) => {
+      report.push({
+        row: accepted[index].row,
+        status: "accepted",
+        recordId: record.id,
+        targetValue: record.targetValue ?? undefined,
+        tierClassification: record.tierClassification ?? undefined,
+      });
+    });
+
+    await reclassifyDatasetRecords(dataset);
+  }
+
+  const recordCount = await syncDatasetRecordCount(dataset.id);
+  report.sort((a, b) => a.row - b.row);
+
+  return {
+    datasetId: dataset.id,
+    format,
+    totalRows: rows.length,
+    acceptedCount: accepted.length,
+    rejectedCount: rows.length - accepted.length,
+    recordCount,
+    rows: report,
+  };
+}
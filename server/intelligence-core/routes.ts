@@ -1,11 +1,64 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { db } from "../db";
-import { datasets, datasetRecords, engineeredFeatures, patternModels, predictionLogs, trendSignals, modelSnapshots, experimentGroups } from "@shared/schema";
-import { eq, desc } from "drizzle-orm";
+import { datasets, datasetRecords, engineeredFeatures, patternModels, trendSignals, modelSnapshots, experimentGroups } from "@shared/schema";
+import { eq, and, desc } from "drizzle-orm";
 import jwt from "jsonwebtoken";
-import { trainModel, predict, classifyTier } from "./model-training";
-import { getDatasetType, normalizeFeatures, computeFeatureStats, extractFeaturesForRecord } from "./feature-engineering";
-import { createPredictionSnapshot, confirmUpload, validatePrediction, getRollingAccuracy } from "./prediction";
+import { fromZodError } from "zod-validation-error";
+import {
+  trainModel,
+  splitData,
+  isModelType,
+  loadScoringModel,
+  parseTierConfig,
+  resolveTierThresholds,
+  loadTierThresholds,
+  MODEL_TYPES,
+  DEFAULT_INTERVAL_LEVEL,
+  type TierConfig,
+  type FoldInputs,
+} from "./model-training";
+import {
+  getDatasetType,
+  listDatasetTypes,
+  extractFeaturesForRecords,
+  encodeCategoricals,
+  prepareTrainingInputs,
+  prepareModelFeatures,
+  getNormalizedBounds,
+  isNormalizationMethod,
+  isCategoricalEncodingMethod,
+  NORMALIZATION_METHODS,
+  CATEGORICAL_ENCODINGS,
+  type FeatureStats,
+  type CategoricalEncoder,
+  type CategoryValues,
+} from "./feature-engineering";
+import {
+  createPredictionSnapshot,
+  scoreFeatures,
+  confirmUpload,
+  startTracking,
+  validatePrediction,
+  amendValidation,
+  listAmendments,
+  getRollingAccuracy,
+  explainSnapshot,
+  verifySnapshot,
+  MAX_BATCH_PREDICTIONS,
+} from "./prediction";
+import { registerModel, getChampionModel, listModelVersions, promoteModel, rollbackModel, ModelRegistryError } from "./model-registry";
+import { SnapshotLifecycleError, listSnapshotsByState, isSnapshotState, SNAPSHOT_STATES } from "./snapshot-lifecycle";
+import { loadNormalizationMethods, loadEncodingMethods, listEngineeredFeatures, upsertEngineeredFeature } from "./feature-store";
+import { detectUploadFormat, parseRecordPayload, ingestRecords, MAX_ROWS_PER_UPLOAD } from "./record-ingestion";
+import { buildReferenceDistributions } from "./statistical-drift";
+import { boostingParamsSchema } from "./gradient-boosting";
+import type { DriftCheck } from "./alerts";
+import {
+  parseCheckpoint,
+  isValidationCheckpoint,
+  recordTargetForHorizon,
+  FINAL_CHECKPOINT,
+} from "./checkpoints";
 
 const JWT_SECRET = process.env.SESSION_SECRET || "vectoras-jwt-secret";
 
@@ -39,6 +92,19 @@ function requireAuth(req: Request, res: Response, next: any) {
   }
 }
 
+function driftResponse({ drift, statistical, retirement, sampleCount }: DriftCheck) {
+  return {
+    ...drift,
+    sampleCount,
+    modelId: statistical?.modelId ?? null,
+    referenceSource: statistical?.referenceSource ?? null,
+    features: statistical?.features ?? [],
+    driftedFeatures: statistical?.driftedFeatures ?? [],
+    residuals: statistical?.residuals ?? null,
+    retirement,
+  };
+}
+
 export function registerIntelligenceRoutes(app: Express) {
   import("./signal-sources").then(({ registerAllSignalSources }) => {
     registerAllSignalSources();
@@ -47,6 +113,13 @@ export function registerIntelligenceRoutes(app: Express) {
     console.error("[Intelligence Core] Failed to register signal sources:", err.message);
   });
 
+  import("./dataset-definitions").then(async ({ loadDatasetTypeDefinitions }) => {
+    const loaded = await loadDatasetTypeDefinitions();
+    console.log(`[Intelligence Core] Declarative dataset types loaded: ${loaded.length}`);
+  }).catch((err) => {
+    console.error("[Intelligence Core] Failed to load dataset type definitions:", err.message);
+  });
+
   app.get("/api/intelligence/datasets", requireAuth, async (req: Request, res: Response) => {
     try {
       const allDatasets = await db.select().from(datasets).orderBy(desc(datasets.createdAt));
@@ -62,9 +135,17 @@ export function registerIntelligenceRoutes(app: Express) {
       if (!name || !datasetType) {
         return res.status(400).json({ error: "name and datasetType are required" });
       }
+      let tierConfig: TierConfig | null = null;
+      if (req.body.tierConfig != null) {
+        const parsed = parseTierConfig(req.body.tierConfig);
+        if (typeof parsed === "string") {
+          return res.status(400).json({ error: `Invalid tierConfig: ${parsed}` });
+        }
+        tierConfig = parsed;
+      }
       const [dataset] = await db
         .insert(datasets)
-        .values({ name, datasetType, description: description || null, targetMetricName: targetMetricName || null })
+        .values({ name, datasetType, description: description || null, targetMetricName: targetMetricName || null, tierConfig })
         .returning();
       res.status(201).json({ dataset });
     } catch (error: any) {
@@ -83,15 +164,191 @@ export function registerIntelligenceRoutes(app: Express) {
         .select()
         .from(datasetRecords)
         .where(eq(datasetRecords.datasetId, datasetId));
-      res.json({ dataset, recordCount: records.length });
+      const tierThresholds = resolveTierThresholds(
+        dataset.tierConfig as TierConfig | null,
+        records.filter((r) => r.isActive && r.targetValue !== null).map((r) => r.targetValue as number)
+      );
+      res.json({ dataset, recordCount: records.length, tierThresholds });
     } catch (error: any) {
       res.status(500).json({ error: "Failed to get dataset", details: error.message });
     }
   });
 
+  app.put("/api/intelligence/datasets/:datasetId/tiers", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const datasetId = req.params.datasetId as string;
+      let tierConfig: TierConfig | null = null;
+      if (req.body?.tierConfig != null) {
+        const parsed = parseTierConfig(req.body.tierConfig);
+        if (typeof parsed === "string") {
+          return res.status(400).json({ error: `Invalid tierConfig: ${parsed}` });
+        }
+        tierConfig = parsed;
+      }
+      const { updateDatasetTierConfig } = await import("./tier-config");
+      const result = await updateDatasetTierConfig(datasetId, tierConfig);
+      if (!result) {
+        return res.status(404).json({ error: "Dataset not found" });
+      }
+      res.json({ dataset: result.dataset, tierThresholds: result.thresholds, reclassifiedRecords: result.updated });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to update tier configuration", details: error.message });
+    }
+  });
+
+  app.post(
+    "/api/intelligence/datasets/:datasetId/records",
+    requireAuth,
+    express.text({ type: ["text/csv", "text/plain", "application/x-ndjson", "application/jsonl"], limit: "10mb" }),
+    async (req: Request, res: Response) => {
+      try {
+        const datasetId = req.params.datasetId as string;
+        const [dataset] = await db.select().from(datasets).where(eq(datasets.id, datasetId)).limit(1);
+        if (!dataset) {
+          return res.status(404).json({ error: "Dataset not found" });
+        }
+        if (!getDatasetType(dataset.datasetType)) {
+          return res.status(400).json({ error: `No feature extractor registered for dataset type "${dataset.datasetType}"` });
+        }
+
+        // Raw text bodies carry the upload directly; JSON bodies may wrap it as
+        // { records: [...] } or { format, content }.
+        const isText = typeof req.body === "string";
+        const format = detectUploadFormat(req.headers["content-type"], (req.query.format as string) || (!isText ? req.body?.format : undefined));
+        if (!format) {
+          return res.status(400).json({ error: "Unsupported upload format. Use json, jsonl or csv" });
+        }
+
+        const payload = isText ? req.body : req.body?.content ?? req.body?.records ?? req.body;
+        let rows;
+        try {
+          rows = parseRecordPayload(format, payload);
+        } catch (parseError: any) {
+          return res.status(400).json({ error: "Failed to parse upload", details: parseError.message });
+        }
+
+        if (rows.length === 0) {
+          return res.status(400).json({ error: "Upload contains no records" });
+        }
+        if (rows.length > MAX_ROWS_PER_UPLOAD) {
+          return res.status(413).json({ error: "Too many records", rowCount: rows.length, maxRows: MAX_ROWS_PER_UPLOAD });
+        }
+
+        const report = await ingestRecords(dataset, format, rows);
+        res.status(report.acceptedCount > 0 ? 201 : 200).json(report);
+      } catch (error: any) {
+        res.status(500).json({ error: "Failed to ingest records", details: error.message });
+      }
+    }
+  );
+
+  app.post("/api/intelligence/sync/humor-performance/backfill", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { backfillHumorPerformance } = await import("./humor-sync");
+      const result = await backfillHumorPerformance();
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to backfill humor performance", details: error.message });
+    }
+  });
+
+  app.get("/api/intelligence/dataset-types", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { isDeclarativeDatasetType, getDatasetTypeDefinition } = await import("./dataset-definitions");
+      const types = await Promise.all(
+        listDatasetTypes().map(async (datasetType) => {
+          const declarative = isDeclarativeDatasetType(datasetType);
+          return {
+            datasetType,
+            source: declarative ? "declarative" : "built_in",
+            targetMetricName: getDatasetType(datasetType)?.targetMetricDefinition.name ?? null,
+            definition: declarative ? await getDatasetTypeDefinition(datasetType) : null,
+          };
+        })
+      );
+      res.json({ datasetTypes: types });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to list dataset types", details: error.message });
+    }
+  });
+
+  app.put("/api/intelligence/dataset-types/:datasetType", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const datasetType = req.params.datasetType as string;
+      const { parseDatasetTypeDefinition, saveDatasetTypeDefinition, isDeclarativeDatasetType } = await import("./dataset-definitions");
+      if (getDatasetType(datasetType) && !isDeclarativeDatasetType(datasetType)) {
+        return res.status(409).json({ error: `Dataset type "${datasetType}" is built in and cannot be redefined` });
+      }
+      const definition = parseDatasetTypeDefinition(datasetType, req.body);
+      if (typeof definition === "string") {
+        return res.status(400).json({ error: `Invalid dataset type definition: ${definition}` });
+      }
+      const saved = await saveDatasetTypeDefinition(definition);
+      res.json({ definition: saved });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to save dataset type", details: error.message });
+    }
+  });
+
+  app.delete("/api/intelligence/dataset-types/:datasetType", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const datasetType = req.params.datasetType as string;
+      const { deleteDatasetTypeDefinition, isDeclarativeDatasetType } = await import("./dataset-definitions");
+      if (!isDeclarativeDatasetType(datasetType)) {
+        return res.status(404).json({ error: "Declarative dataset type not found" });
+      }
+      const [inUse] = await db
+        .select({ id: datasets.id })
+        .from(datasets)
+        .where(and(eq(datasets.datasetType, datasetType), eq(datasets.isActive, true)))
+        .limit(1);
+      if (inUse) {
+        return res.status(409).json({ error: "Dataset type is used by an active dataset" });
+      }
+      await deleteDatasetTypeDefinition(datasetType);
+      res.json({ deleted: datasetType });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to delete dataset type", details: error.message });
+    }
+  });
+
+  app.get("/api/intelligence/features/:datasetType", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const datasetType = req.params.datasetType as string;
+      const features = await listEngineeredFeatures(datasetType);
+      res.json({ features, normalizationMethods: NORMALIZATION_METHODS, encodingMethods: CATEGORICAL_ENCODINGS });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to list features", details: error.message });
+    }
+  });
+
+  app.put("/api/intelligence/features/:datasetType/:featureName", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const datasetType = req.params.datasetType as string;
+      const featureName = req.params.featureName as string;
+      const { normalizationMethod, encodingMethod } = req.body;
+      if (normalizationMethod === undefined && encodingMethod === undefined) {
+        return res.status(400).json({ error: "normalizationMethod or encodingMethod is required" });
+      }
+      if (normalizationMethod !== undefined && !isNormalizationMethod(normalizationMethod)) {
+        return res.status(400).json({ error: "Invalid normalizationMethod", allowed: NORMALIZATION_METHODS });
+      }
+      if (encodingMethod !== undefined && !isCategoricalEncodingMethod(encodingMethod)) {
+        return res.status(400).json({ error: "Invalid encodingMethod", allowed: CATEGORICAL_ENCODINGS });
+      }
+      const feature = await upsertEngineeredFeature(datasetType, featureName, {
+        ...(normalizationMethod !== undefined && { normalizationMethod }),
+        ...(encodingMethod !== undefined && { encodingMethod, featureType: "categorical" }),
+      });
+      res.json({ feature });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to update feature", details: error.message });
+    }
+  });
+
   app.post("/api/intelligence/train/:datasetId", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { datasetId } = req.params;
+      const datasetId = req.params.datasetId as string;
       const [dataset] = await db.select().from(datasets).where(eq(datasets.id, datasetId)).limit(1);
       if (!dataset) {
         return res.status(404).json({ error: "Dataset not found" });
@@ -102,42 +359,142 @@ export function registerIntelligenceRoutes(app: Express) {
         .from(datasetRecords)
         .where(eq(datasetRecords.datasetId, datasetId));
 
-      const activeRecords = records.filter((r) => r.isActive);
+      const modelType = req.body?.modelType ?? "multivariate_regression";
+      const lambda = req.body?.lambda;
+      if (!isModelType(modelType)) {
+        return res.status(400).json({ error: "Invalid modelType", allowed: MODEL_TYPES });
+      }
+      if (lambda !== undefined && (!Number.isFinite(Number(lambda)) || Number(lambda) < 0)) {
+        return res.status(400).json({ error: "lambda must be a non-negative number" });
+      }
+      const validationMode = req.body?.validationMode ?? "walk_forward";
+      if (validationMode !== "walk_forward" && validationMode !== "holdout") {
+        return res.status(400).json({ error: "validationMode must be walk_forward or holdout" });
+      }
+      const cvFolds = req.body?.cvFolds !== undefined ? parseInt(req.body.cvFolds) : undefined;
+      if (cvFolds !== undefined && (!Number.isFinite(cvFolds) || cvFolds < 2)) {
+        return res.status(400).json({ error: "cvFolds must be an integer of at least 2" });
+      }
+      const boosting = boostingParamsSchema.optional().safeParse(req.body?.boosting);
+      if (!boosting.success) {
+        return res.status(400).json({ error: "Invalid boosting parameters", details: fromZodError(boosting.error).message });
+      }
+      const horizon = parseCheckpoint(req.body?.horizon, "horizon") ?? FINAL_CHECKPOINT;
+      if (!isValidationCheckpoint(horizon)) {
+        return res.status(400).json({ error: horizon });
+      }
+
+      // Records without a value at the chosen horizon can't be trained against it.
+      const activeRecords = records
+        .filter((r) => r.isActive)
+        .map((r) => ({ ...r, targetValue: recordTargetForHorizon(r, horizon) }))
+        .filter((r) => r.targetValue !== null);
       if (activeRecords.length < 10) {
-        return res.status(400).json({ error: "Insufficient data", recordCount: activeRecords.length, required: 10 });
+        return res.status(400).json({ error: "Insufficient data", horizon, recordCount: activeRecords.length, required: 10 });
+      }
+
+      if (!getDatasetType(dataset.datasetType)) {
+        return res.status(400).json({ error: `No feature extractor registered for dataset type "${dataset.datasetType}"` });
       }
 
-      const trainingRecords = activeRecords.map((r) => ({
-        normalizedFeatures: (r.normalizedFeatures as Record<string, number>) || {},
-        targetValue: r.targetValue ?? 0,
+      // Re-extract from rawFeatures and freeze the scaling used here onto the
+      // model, so prediction never depends on how the dataset grows afterwards.
+      // Each record only sees earlier records as history.
+      const results = extractFeaturesForRecords(
+        dataset.datasetType,
+        activeRecords.map((r) => ({ rawData: r.rawFeatures ?? {}, targetValue: r.targetValue, createdAt: r.createdAt }))
+      );
+      const extracted = activeRecords.map((r, i) => ({
+        record: r,
         createdAt: r.createdAt,
+        features: results[i]?.features ?? {},
+        categories: results[i]?.categories ?? {},
       }));
 
-      const result = trainModel(datasetId, trainingRecords);
+      // Split first, with the same chronological cut trainModel makes, so
+      // encoders, scaling and tier cut-offs are fit on the training rows only
+      // and the held-out rows are transformed like any new input would be.
+      const { train, test } = splitData(extracted);
+
+      // Category vocabularies, target-encoding means and scaling are frozen
+      // the same way.
+      const encodingMethods = await loadEncodingMethods(dataset.datasetType);
+      const normalizationMethods = await loadNormalizationMethods(dataset.datasetType);
+      const toInput = (e: (typeof extracted)[number]) => ({
+        features: e.features,
+        categories: e.categories,
+        target: e.record.targetValue ?? 0,
+      });
+      const toRecords = (rows: typeof extracted, normalized: Record<string, number>[]) =>
+        rows.map((e, i) => ({ normalizedFeatures: normalized[i], targetValue: e.record.targetValue ?? 0, createdAt: e.createdAt }));
+
+      const { categoricalEncoders, featureStats, ...prepared } = prepareTrainingInputs(
+        train.map(toInput),
+        test.map(toInput),
+        encodingMethods,
+        normalizationMethods
+      );
+      const trainingRecords = [...toRecords(train, prepared.train), ...toRecords(test, prepared.test)];
 
-      const [model] = await db
-        .insert(patternModels)
-        .values({
-          datasetId,
-          modelType: "multivariate_regression",
-          coefficients: result.coefficients,
-          intercept: result.intercept,
-          featureNames: result.featureNames,
+      // Walk-forward folds redo the preprocessing on each fold's own training
+      // prefix, so their metrics don't borrow statistics from later rows.
+      const chronological = [...train, ...test];
+      const foldInputs: FoldInputs = (trainEnd, testEnd) => {
+        const foldTrain = chronological.slice(0, trainEnd);
+        const foldTest = chronological.slice(trainEnd, testEnd);
+        const fold = prepareTrainingInputs(foldTrain.map(toInput), foldTest.map(toInput), encodingMethods, normalizationMethods);
+        return { train: toRecords(foldTrain, fold.train), test: toRecords(foldTest, fold.test) };
+      };
+
+      // Tier boundaries are resolved once here and frozen on the model, so its
+      // predictions and their later validation use the same cut-offs.
+      const tierThresholds = resolveTierThresholds(
+        dataset.tierConfig as TierConfig | null,
+        train.map((e) => e.record.targetValue ?? 0)
+      );
+
+      const result = trainModel(datasetId, trainingRecords, {
+        modelType,
+        lambda: lambda !== undefined ? Number(lambda) : undefined,
+        boosting: boosting.data,
+        validationMode,
+        cvFolds,
+        tierThresholds,
+        foldInputs,
+      });
+
+      const model = await registerModel({
+        datasetId,
+        modelType: result.modelType,
+        hyperparameters: result.hyperparameters,
+        modelArtifact: result.artifact,
+        uncertaintyArtifact: result.uncertainty,
+        featureDistributions: buildReferenceDistributions(extracted.map((e) => e.features)),
+        tierThresholds: result.tierThresholds,
+        categoricalEncoders,
+        targetHorizon: horizon,
+        coefficients: result.coefficients,
+        intercept: result.intercept,
+        featureNames: result.featureNames,
+        featureStats,
+        rSquared: result.rSquared,
+        mae: result.mae,
+        tierAccuracy: result.tierAccuracy,
+        directionalAccuracy: result.directionalAccuracy,
+        trainSampleCount: result.trainSampleCount,
+        testSampleCount: result.testSampleCount,
+        trainingMetrics: {
           rSquared: result.rSquared,
           mae: result.mae,
           tierAccuracy: result.tierAccuracy,
           directionalAccuracy: result.directionalAccuracy,
-          trainSampleCount: result.trainSampleCount,
-          testSampleCount: result.testSampleCount,
-          trainingMetrics: {
-            rSquared: result.rSquared,
-            mae: result.mae,
-            tierAccuracy: result.tierAccuracy,
-            directionalAccuracy: result.directionalAccuracy,
-          },
-          status: "active",
-        })
-        .returning();
+          validationMode,
+          horizon,
+          crossValidation: result.crossValidation,
+          learningCurve: result.learningCurve,
+          featureImportance: result.featureImportance,
+        },
+      });
 
       await db
         .update(datasets)
@@ -150,122 +507,375 @@ export function registerIntelligenceRoutes(app: Express) {
     }
   });
 
+  app.get("/api/intelligence/models/:datasetId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const datasetId = req.params.datasetId as string;
+      const models = await listModelVersions(datasetId);
+      const champion = models.find((m) => m.status === "champion") || null;
+      res.json({ models, championId: champion?.id ?? null });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to list models", details: error.message });
+    }
+  });
+
+  app.post("/api/intelligence/models/:datasetId/promote/:modelId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const datasetId = req.params.datasetId as string;
+      const modelId = req.params.modelId as string;
+      const result = await promoteModel(datasetId, modelId);
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof ModelRegistryError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to promote model", details: error.message });
+    }
+  });
+
+  app.post("/api/intelligence/models/:datasetId/rollback", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const datasetId = req.params.datasetId as string;
+      const result = await rollbackModel(datasetId, req.body?.modelId);
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof ModelRegistryError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to roll back model", details: error.message });
+    }
+  });
+
+  app.get("/api/intelligence/models/:datasetId/challengers", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const datasetId = req.params.datasetId as string;
+      const windowSize = req.query.window ? Number(req.query.window) : 20;
+      if (!Number.isInteger(windowSize) || windowSize < 1) {
+        return res.status(400).json({ error: "window must be a positive integer" });
+      }
+      const { compareChampionChallengers } = await import("./shadow-scoring");
+      const report = await compareChampionChallengers(datasetId, windowSize);
+      res.json(report);
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to compare challengers", details: error.message });
+    }
+  });
+
+  app.post("/api/intelligence/models/:datasetId/challengers/auto-promote", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const datasetId = req.params.datasetId as string;
+      const { minSamples, alpha, window } = req.body ?? {};
+      if (minSamples !== undefined && (!Number.isInteger(minSamples) || minSamples < 1)) {
+        return res.status(400).json({ error: "minSamples must be a positive integer" });
+      }
+      if (alpha !== undefined && (typeof alpha !== "number" || alpha <= 0 || alpha >= 1)) {
+        return res.status(400).json({ error: "alpha must be a number between 0 and 1" });
+      }
+      if (window !== undefined && (!Number.isInteger(window) || window < 1)) {
+        return res.status(400).json({ error: "window must be a positive integer" });
+      }
+      const { autoPromoteChallenger } = await import("./shadow-scoring");
+      const result = await autoPromoteChallenger(datasetId, { minSamples, alpha, windowSize: window });
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof ModelRegistryError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to auto-promote challenger", details: error.message });
+    }
+  });
+
   app.post("/api/intelligence/predict/:datasetId", requireAuth, async (req: Request, res: Response) => {
     try {
       const { datasetId } = req.params;
-      const { features } = req.body;
+      const { features, categories } = req.body;
       if (!features) {
         return res.status(400).json({ error: "features are required in request body" });
       }
+      if (categories !== undefined && (typeof categories !== "object" || categories === null || Array.isArray(categories))) {
+        return res.status(400).json({ error: "categories must be an object of field -> label" });
+      }
+      const intervalLevel = req.body.intervalLevel ?? DEFAULT_INTERVAL_LEVEL;
+      if (typeof intervalLevel !== "number" || intervalLevel <= 0 || intervalLevel >= 1) {
+        return res.status(400).json({ error: "intervalLevel must be a number between 0 and 1" });
+      }
 
-      const [latestModel] = await db
-        .select()
-        .from(patternModels)
-        .where(eq(patternModels.datasetId, datasetId))
-        .orderBy(desc(patternModels.createdAt))
-        .limit(1);
+      const latestModel = await getChampionModel(datasetId);
 
       if (!latestModel) {
-        return res.status(404).json({ error: "No trained model found for this dataset" });
+        return res.status(404).json({ error: "No champion model found for this dataset" });
       }
 
-      const featureNames = (latestModel.featureNames as string[]) || [];
-      const coefficients = (latestModel.coefficients as number[]) || [];
-      const intercept = latestModel.intercept ?? 0;
-
-      const allRecords = await db
-        .select()
-        .from(datasetRecords)
-        .where(eq(datasetRecords.datasetId, datasetId));
-
-      const featureArrays: Record<string, number[]> = {};
-      for (const name of featureNames) {
-        featureArrays[name] = [];
-      }
-      for (const record of allRecords) {
-        const nf = record.normalizedFeatures as Record<string, number> | null;
-        if (nf) {
-          for (const name of featureNames) {
-            if (nf[name] !== undefined) {
-              featureArrays[name].push(nf[name]);
-            }
-          }
-        }
+      const model = loadScoringModel(latestModel);
+      if (!latestModel.featureStats) {
+        return res.status(409).json({ error: "Model has no stored feature statistics. Retrain the dataset before predicting." });
       }
 
-      const stats = computeFeatureStats(featureArrays);
-      const normalizedFeatures = normalizeFeatures(features, stats);
-      const featureVector = featureNames.map((name) => normalizedFeatures[name] ?? 0);
-
-      const predictedValue = predict(coefficients, intercept, featureVector);
-      const predictedTier = classifyTier(predictedValue);
-      const confidence = latestModel.rSquared ?? 0;
+      const scored = scoreFeatures(latestModel, model, features, categories, intervalLevel);
 
       const snapshot = await createPredictionSnapshot(
         datasetId,
         latestModel.id,
-        featureVector,
-        coefficients,
-        predictedValue,
-        predictedTier,
-        confidence
+        scored.featureVector,
+        model.parameters,
+        scored.predictedValue,
+        scored.predictedTier,
+        scored.confidence,
+        undefined,
+        undefined,
+        { rawFeatures: features, categories, interval: scored.interval }
       );
 
       res.json({
-        predictedValue,
-        predictedTier,
-        confidence,
+        predictedValue: scored.predictedValue,
+        predictedTier: scored.predictedTier,
+        confidence: scored.confidence,
+        interval: scored.interval,
         snapshotId: snapshot.id,
-        featureVector,
-        normalizedFeatures,
+        featureVector: scored.featureVector,
+        normalizedFeatures: scored.normalizedFeatures,
+        tierThresholds: scored.tierThresholds,
       });
     } catch (error: any) {
       res.status(500).json({ error: "Failed to generate prediction", details: error.message });
     }
   });
 
-  app.post("/api/intelligence/confirm-upload/:snapshotId", requireAuth, async (req: Request, res: Response) => {
+  // Scores many candidates against the champion in one call and ranks them by
+  // predicted value. Nothing is locked unless snapshotTop asks for the top N.
+  app.post("/api/intelligence/predict/:datasetId/batch", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { snapshotId } = req.params;
-      const updated = await confirmUpload(snapshotId);
-      if (!updated) {
+      const datasetId = req.params.datasetId as string;
+      const items = req.body?.items;
+      if (!Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ error: "items must be a non-empty array of { features, categories?, id? }" });
+      }
+      if (items.length > MAX_BATCH_PREDICTIONS) {
+        return res.status(400).json({ error: `At most ${MAX_BATCH_PREDICTIONS} items per batch`, itemCount: items.length });
+      }
+      for (let i = 0; i < items.length; i++) {
+        const item = items[i];
+        if (!item || typeof item.features !== "object" || item.features === null || Array.isArray(item.features)) {
+          return res.status(400).json({ error: "Each item needs a features object", index: i });
+        }
+        if (item.categories !== undefined && (typeof item.categories !== "object" || item.categories === null || Array.isArray(item.categories))) {
+          return res.status(400).json({ error: "categories must be an object of field -> label", index: i });
+        }
+      }
+      const intervalLevel = req.body.intervalLevel ?? DEFAULT_INTERVAL_LEVEL;
+      if (typeof intervalLevel !== "number" || intervalLevel <= 0 || intervalLevel >= 1) {
+        return res.status(400).json({ error: "intervalLevel must be a number between 0 and 1" });
+      }
+      const snapshotTop = req.body.snapshotTop ?? 0;
+      if (!Number.isInteger(snapshotTop) || snapshotTop < 0) {
+        return res.status(400).json({ error: "snapshotTop must be a non-negative integer" });
+      }
+
+      const latestModel = await getChampionModel(datasetId);
+      if (!latestModel) {
+        return res.status(404).json({ error: "No champion model found for this dataset" });
+      }
+      if (!latestModel.featureStats) {
+        return res.status(409).json({ error: "Model has no stored feature statistics. Retrain the dataset before predicting." });
+      }
+
+      const model = loadScoringModel(latestModel);
+      const ranked = items
+        .map((item: any, index: number) => ({
+          index,
+          id: item.id ?? null,
+          features: item.features as Record<string, number>,
+          categories: item.categories as CategoryValues | undefined,
+          scored: scoreFeatures(latestModel, model, item.features, item.categories, intervalLevel),
+        }))
+        .sort((a, b) => b.scored.predictedValue - a.scored.predictedValue);
+
+      const predictions = [];
+      for (let rank = 0; rank < ranked.length; rank++) {
+        const { index, id, features, categories, scored } = ranked[rank];
+        let snapshotId: string | null = null;
+        if (rank < snapshotTop) {
+          const snapshot = await createPredictionSnapshot(
+            datasetId,
+            latestModel.id,
+            scored.featureVector,
+            model.parameters,
+            scored.predictedValue,
+            scored.predictedTier,
+            scored.confidence,
+            undefined,
+            undefined,
+            { rawFeatures: features, categories, interval: scored.interval }
+          );
+          snapshotId = snapshot.id;
+        }
+        predictions.push({
+          rank: rank + 1,
+          index,
+          id,
+          predictedValue: scored.predictedValue,
+          predictedTier: scored.predictedTier,
+          confidence: scored.confidence,
+          interval: scored.interval,
+          snapshotId,
+        });
+      }
+
+      res.json({
+        modelId: latestModel.id,
+        modelVersion: latestModel.version,
+        tierThresholds: loadTierThresholds(latestModel.tierThresholds),
+        predictions,
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to generate batch predictions", details: error.message });
+    }
+  });
+
+  app.get("/api/intelligence/explain/:snapshotId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const snapshotId = req.params.snapshotId as string;
+      const explanation = await explainSnapshot(snapshotId);
+      if (!explanation) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
+      if (!explanation.explainable) {
+        return res.status(409).json({ error: "This model predates per-prediction explanations. Retrain to explain its predictions." });
+      }
+      res.json(explanation);
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to explain prediction", details: error.message });
+    }
+  });
+
+  app.get("/api/intelligence/snapshots/:id/verify", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const verification = await verifySnapshot(req.params.id as string);
+      if (!verification) {
         return res.status(404).json({ error: "Snapshot not found" });
       }
+      if (!verification.verifiable) {
+        return res.status(409).json({ error: "Snapshot predates stored hash payloads and cannot be verified", ...verification });
+      }
+      res.json(verification);
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to verify snapshot", details: error.message });
+    }
+  });
+
+  app.post("/api/intelligence/confirm-upload/:snapshotId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const snapshotId = req.params.snapshotId as string;
+      const updated = await confirmUpload(snapshotId);
       res.json({ snapshot: updated });
     } catch (error: any) {
+      if (error instanceof SnapshotLifecycleError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to confirm upload", details: error.message });
     }
   });
 
+  app.post("/api/intelligence/start-tracking/:snapshotId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const snapshotId = req.params.snapshotId as string;
+      const updated = await startTracking(snapshotId);
+      res.json({ snapshot: updated });
+    } catch (error: any) {
+      if (error instanceof SnapshotLifecycleError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to start tracking", details: error.message });
+    }
+  });
+
   app.post("/api/intelligence/validate/:snapshotId", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { snapshotId } = req.params;
+      const snapshotId = req.params.snapshotId as string;
       const { actualValue } = req.body;
-      if (actualValue === undefined || actualValue === null) {
+      if (actualValue === undefined || actualValue === null || !Number.isFinite(Number(actualValue))) {
         return res.status(400).json({ error: "actualValue is required" });
       }
-      const result = await validatePrediction(snapshotId, Number(actualValue));
+      const checkpoint = parseCheckpoint(req.body?.checkpoint) ?? FINAL_CHECKPOINT;
+      if (!isValidationCheckpoint(checkpoint)) {
+        return res.status(400).json({ error: checkpoint });
+      }
+      const result = await validatePrediction(snapshotId, Number(actualValue), checkpoint);
+
+      // A new validated outcome is when drift can first show up. The check is
+      // queued rather than run here; it logs its own failures.
+      const { scheduleDriftCheck } = await import("./alerts");
+      scheduleDriftCheck(result.log.datasetId, checkpoint);
       res.json(result);
     } catch (error: any) {
+      if (error instanceof SnapshotLifecycleError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to validate prediction", details: error.message });
     }
   });
 
+  app.post("/api/intelligence/amend/:snapshotId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const snapshotId = req.params.snapshotId as string;
+      const { actualValue, reason } = req.body ?? {};
+      if (actualValue === undefined || actualValue === null || !Number.isFinite(Number(actualValue))) {
+        return res.status(400).json({ error: "actualValue is required" });
+      }
+      if (typeof reason !== "string" || reason.trim().length === 0) {
+        return res.status(400).json({ error: "reason is required to amend a validation" });
+      }
+      const checkpoint = parseCheckpoint(req.body?.checkpoint) ?? FINAL_CHECKPOINT;
+      if (!isValidationCheckpoint(checkpoint)) {
+        return res.status(400).json({ error: checkpoint });
+      }
+      const result = await amendValidation(snapshotId, Number(actualValue), reason.trim(), (req as any).userId, checkpoint);
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof SnapshotLifecycleError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to amend validation", details: error.message });
+    }
+  });
+
+  app.get("/api/intelligence/snapshots/:id/amendments", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const amendments = await listAmendments(req.params.id as string);
+      res.json({ amendments });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to fetch amendments", details: error.message });
+    }
+  });
+
+  app.get("/api/intelligence/datasets/:datasetId/snapshots", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const datasetId = req.params.datasetId as string;
+      const state = req.query.state;
+      if (state !== undefined && !isSnapshotState(state)) {
+        return res.status(400).json({ error: "Invalid state", allowed: SNAPSHOT_STATES });
+      }
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+      const snapshots = await listSnapshotsByState(datasetId, state, limit);
+      res.json({ snapshots });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to fetch snapshots", details: error.message });
+    }
+  });
+
   app.get("/api/intelligence/metrics/:datasetId", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { datasetId } = req.params;
-      const rolling = await getRollingAccuracy(datasetId);
+      const datasetId = req.params.datasetId as string;
+      const checkpoint = parseCheckpoint(req.query.checkpoint) ?? FINAL_CHECKPOINT;
+      if (!isValidationCheckpoint(checkpoint)) {
+        return res.status(400).json({ error: checkpoint });
+      }
+      const rolling = await getRollingAccuracy(datasetId, 20, checkpoint);
 
-      const [latestModel] = await db
-        .select()
-        .from(patternModels)
-        .where(eq(patternModels.datasetId, datasetId))
-        .orderBy(desc(patternModels.createdAt))
-        .limit(1);
+      const champion = await getChampionModel(datasetId);
 
       res.json({
         rolling,
-        model: latestModel || null,
+        model: champion || null,
       });
     } catch (error: any) {
       res.status(500).json({ error: "Failed to get metrics", details: error.message });
@@ -314,7 +924,7 @@ export function registerIntelligenceRoutes(app: Express) {
 
   app.get("/api/intelligence/ami/:keyword", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { keyword } = req.params;
+      const keyword = req.params.keyword as string;
       const { getAMIForKeyword } = await import("./correlation-engine");
       const ami = await getAMIForKeyword(keyword);
       res.json(ami);
@@ -323,6 +933,19 @@ export function registerIntelligenceRoutes(app: Express) {
     }
   });
 
+  app.post("/api/intelligence/ami/:keyword/track", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const keyword = req.params.keyword as string;
+      const { getAMIForKeyword } = await import("./correlation-engine");
+      const ami = await getAMIForKeyword(keyword);
+      const { trackAMIStage } = await import("./alerts");
+      const { transition, alert } = await trackAMIStage(keyword, ami);
+      res.json({ ...ami, stageTransition: transition, alert });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to track AMI stage", details: error.message });
+    }
+  });
+
   app.post("/api/intelligence/correlations/detect", requireAuth, async (req: Request, res: Response) => {
     try {
       const { keyword } = req.body;
@@ -357,21 +980,82 @@ export function registerIntelligenceRoutes(app: Express) {
       const { datasetId } = req.params;
       const features = req.query.features ? JSON.parse(req.query.features as string) : null;
       if (!features) return res.status(400).json({ error: "features query param required (JSON)" });
+      const categories = req.query.categories ? JSON.parse(req.query.categories as string) : undefined;
 
-      const [latestModel] = await db
-        .select()
-        .from(patternModels)
-        .where(eq(patternModels.datasetId, datasetId))
-        .orderBy(desc(patternModels.createdAt))
-        .limit(1);
+      const latestModel = await getChampionModel(datasetId);
 
-      if (!latestModel) return res.status(404).json({ error: "No model found" });
+      if (!latestModel) return res.status(404).json({ error: "No champion model found" });
 
-      const { optimizeFeatures } = await import("./optimization");
-      const featureNames = (latestModel.featureNames as string[]) || [];
-      const coefficients = (latestModel.coefficients as number[]) || [];
-      const intercept = latestModel.intercept ?? 0;
-      const result = optimizeFeatures(features, coefficients, intercept, featureNames);
+      const { optimizeFeatures, translateSuggestions } = await import("./optimization");
+      const model = loadScoringModel(latestModel);
+      const featureStats = latestModel.featureStats as Record<string, FeatureStats> | null;
+      const encoders = latestModel.categoricalEncoders as Record<string, CategoricalEncoder> | null;
+      const normalized = featureStats
+        ? prepareModelFeatures(features, categories, featureStats, encoders)
+        : features;
+      const bounds = featureStats
+        ? Object.fromEntries(Object.entries(featureStats).map(([name, s]) => [name, getNormalizedBounds(s)]))
+        : undefined;
+      const result = optimizeFeatures(normalized, model, 0.05, bounds);
+      if (featureStats) {
+        // Same deltas, expressed in the units a scriptwriter works in.
+        const encodedColumns = new Set(Object.keys(encoders ? encodeCategoricals({}, encoders) : {}));
+        return res.json({ ...result, suggestions: translateSuggestions(result.suggestions, featureStats, features, encodedColumns) });
+      }
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to optimize", details: error.message });
+    }
+  });
+
+  // Joint search over raw feature values. Categories stay fixed: their encoded
+  // columns are never searched, only the numeric features in the request are.
+  app.post("/api/intelligence/optimization/:datasetId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const datasetId = req.params.datasetId as string;
+      const { features, categories } = req.body ?? {};
+      if (!features || typeof features !== "object" || Array.isArray(features)) {
+        return res.status(400).json({ error: "features are required in request body" });
+      }
+      if (categories !== undefined && (typeof categories !== "object" || categories === null || Array.isArray(categories))) {
+        return res.status(400).json({ error: "categories must be an object of field -> label" });
+      }
+      const { parseConstrainedOptimizationRequest, optimizeFeaturesConstrained } = await import("./optimization");
+      const request = parseConstrainedOptimizationRequest(req.body);
+      if (typeof request === "string") {
+        return res.status(400).json({ error: request });
+      }
+
+      const latestModel = await getChampionModel(datasetId);
+      if (!latestModel) return res.status(404).json({ error: "No champion model found" });
+      const featureStats = latestModel.featureStats as Record<string, FeatureStats> | null;
+      if (!featureStats) {
+        return res.status(409).json({ error: "Model has no stored feature statistics. Retrain the dataset before optimizing." });
+      }
+
+      const model = loadScoringModel(latestModel);
+      const encoders = latestModel.categoricalEncoders as Record<string, CategoricalEncoder> | null;
+      const encodedColumns = new Set(Object.keys(encoders ? encodeCategoricals({}, encoders) : {}));
+      // Default search range is the range seen in training, so the optimizer
+      // doesn't recommend values the model has never scored.
+      const searchBounds = Object.fromEntries(
+        Object.keys(features)
+          .filter((name) => featureStats[name] && !encodedColumns.has(name))
+          .map((name) => [name, { min: featureStats[name].min, max: featureStats[name].max }])
+      );
+      const unknown = [
+        ...Object.keys(request.bounds ?? {}),
+        ...(request.locked ?? []),
+      ].filter((name) => !(name in searchBounds));
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: "Bounds and locked features must be numeric features in the request", unknown });
+      }
+
+      const predict = (raw: Record<string, number>) => {
+        const normalized = prepareModelFeatures(raw, categories, featureStats, encoders);
+        return model.predict(model.featureNames.map((name) => normalized[name] ?? 0));
+      };
+      const result = optimizeFeaturesConstrained(features, predict, searchBounds, model.modelType, request);
       res.json(result);
     } catch (error: any) {
       res.status(500).json({ error: "Failed to optimize", details: error.message });
@@ -380,42 +1064,138 @@ export function registerIntelligenceRoutes(app: Express) {
 
   app.get("/api/intelligence/drift/:datasetId", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { datasetId } = req.params;
-      const predictions = await db
-        .select()
-        .from(predictionLogs)
-        .where(eq(predictionLogs.datasetId, datasetId))
-        .orderBy(desc(predictionLogs.createdAt))
-        .limit(20);
-
-      const { detectDrift } = await import("./drift-detection");
-      const mapped = predictions.map(p => ({
-        predictedValue: p.predictedValue,
-        actualValue: p.actualValue ?? undefined,
-        error: p.error ?? undefined,
-      }));
-      const drift = detectDrift(mapped);
-      res.json(drift);
+      const datasetId = req.params.datasetId as string;
+      const checkpoint = parseCheckpoint(req.query.checkpoint) ?? FINAL_CHECKPOINT;
+      if (!isValidationCheckpoint(checkpoint)) {
+        return res.status(400).json({ error: checkpoint });
+      }
+      const window = Math.min(parseInt(req.query.window as string) || 200, 2000);
+
+      const { checkDrift } = await import("./alerts");
+      res.json(driftResponse(await checkDrift(datasetId, { checkpoint, window })));
     } catch (error: any) {
       res.status(500).json({ error: "Failed to detect drift", details: error.message });
     }
   });
 
+  // Same check as the GET, with its findings written as deduplicated alerts:
+  // re-running it refreshes open alerts and resolves the ones that cleared.
+  app.post("/api/intelligence/drift/:datasetId/check", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const datasetId = req.params.datasetId as string;
+      const checkpoint = parseCheckpoint(req.body?.checkpoint) ?? FINAL_CHECKPOINT;
+      if (!isValidationCheckpoint(checkpoint)) {
+        return res.status(400).json({ error: checkpoint });
+      }
+      const window = Math.min(parseInt(req.body?.window) || 200, 2000);
+
+      const { runDriftCheck } = await import("./alerts");
+      const result = await runDriftCheck(datasetId, { checkpoint, window });
+      res.json({ ...driftResponse(result), alerts: result.alerts });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to run drift check", details: error.message });
+    }
+  });
+
   app.get("/api/intelligence/exploration/:datasetId", requireAuth, async (req: Request, res: Response) => {
     try {
       const { datasetId } = req.params;
       const features = req.query.features ? JSON.parse(req.query.features as string) : {};
-      const { decideExplorationStrategy } = await import("./exploration");
+      const strategy = (req.query.strategy as string) || "epsilon_greedy";
+      const { decideExplorationStrategy, decideBanditStrategy, isExplorationStrategy, EXPLORATION_STRATEGIES } = await import("./exploration");
+      if (!isExplorationStrategy(strategy)) {
+        return res.status(400).json({ error: "Invalid strategy", allowed: EXPLORATION_STRATEGIES });
+      }
+      const { createSeededRandom, parseSeed } = await import("./random");
+      const seed = parseSeed(req.query.seed);
+      if (typeof seed === "string") {
+        return res.status(400).json({ error: seed });
+      }
+      const rng = createSeededRandom(seed);
       const { getAMIForKeyword } = await import("./correlation-engine");
       const keyword = (req.query.keyword as string) || "";
       let amiScore;
       if (keyword) {
         try { amiScore = await getAMIForKeyword(keyword); } catch {}
       }
-      const decision = decideExplorationStrategy(features, undefined, amiScore);
-      res.json(decision);
+      // Preview only; POST records the decision as an experiment group.
+      if (strategy === "epsilon_greedy") {
+        return res.json(decideExplorationStrategy(features, undefined, amiScore, rng));
+      }
+      const { loadArmStats } = await import("./experiments");
+      res.json(decideBanditStrategy(features, strategy, await loadArmStats(datasetId as string), undefined, rng));
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed exploration decision", details: error.message });
+    }
+  });
+
+  app.post("/api/intelligence/exploration/:datasetId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const datasetId = req.params.datasetId as string;
+      const { features, strategy = "epsilon_greedy", keyword, sourceId, sourceType, snapshotId } = req.body ?? {};
+      if (!features || typeof features !== "object" || Array.isArray(features)) {
+        return res.status(400).json({ error: "features are required in request body" });
+      }
+      const { isExplorationStrategy, EXPLORATION_STRATEGIES } = await import("./exploration");
+      if (!isExplorationStrategy(strategy)) {
+        return res.status(400).json({ error: "Invalid strategy", allowed: EXPLORATION_STRATEGIES });
+      }
+      const { parseSeed } = await import("./random");
+      const seed = parseSeed(req.body.seed);
+      if (typeof seed === "string") {
+        return res.status(400).json({ error: seed });
+      }
+      let amiScore;
+      if (keyword) {
+        const { getAMIForKeyword } = await import("./correlation-engine");
+        try { amiScore = await getAMIForKeyword(keyword); } catch {}
+      }
+      if (amiScore) {
+        const { trackAMIStage } = await import("./alerts");
+        try {
+          await trackAMIStage(keyword, amiScore);
+        } catch (trackError) {
+          console.log("[Intelligence Core] AMI stage tracking failed:", (trackError as Error).message);
+        }
+      }
+      const { recordExplorationDecision } = await import("./experiments");
+      const result = await recordExplorationDecision(datasetId, features, {
+        strategy,
+        amiScore,
+        sourceId,
+        sourceType,
+        snapshotId,
+        seed,
+      });
+      res.status(201).json(result);
     } catch (error: any) {
       res.status(500).json({ error: "Failed exploration decision", details: error.message });
     }
   });
+
+  app.get("/api/intelligence/experiments/:datasetId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const datasetId = req.params.datasetId as string;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+      const { listExperiments, loadArmStats } = await import("./experiments");
+      const [experiments, armStats] = await Promise.all([listExperiments(datasetId, limit), loadArmStats(datasetId)]);
+      res.json({ experiments, armStats: Object.values(armStats) });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to fetch experiments", details: error.message });
+    }
+  });
+
+  app.get("/api/intelligence/experiment-groups/:experimentId/replay", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const experimentId = req.params.experimentId as string;
+      const { replayExperiment } = await import("./experiments");
+      const result = await replayExperiment(experimentId);
+      if (!result) {
+        return res.status(404).json({ error: "Experiment group not found" });
+      }
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to replay experiment", details: error.message });
+    }
+  });
 }
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import type { PatternModel } from "@shared/schema";
+import { decideBanditStrategy, decideExplorationStrategy, listArms, EXPLOIT_ARM } from "./exploration";
+import { createSeededRandom } from "./random";
+import { SCRIPT_CONTROLLABLE_FEATURES, explorationRewriteTarget, getScriptMutationBounds } from "./script-rewrite";
+
+const rawFeatures = { setupDuration: 12, punchlineTiming: 40, deliveryPaceWps: 2.5, toneShiftDensity: 0.3, escalationDensity: 0.5 };
+const features = { setupDuration: 0.4, punchlineTiming: 0.6, deliveryPaceWps: 0.5, toneShiftDensity: 0.3, escalationDensity: 0.5 };
+const champion = {
+  featureStats: {
+    setupDuration: { min: 0, max: 30, mean: 12, stdDev: 5 },
+    punchlineTiming: { min: 10, max: 60, mean: 40, stdDev: 10 },
+    deliveryPaceWps: { min: 1, max: 4, mean: 2.5, stdDev: 0.5 },
+    toneShiftDensity: { min: 0, max: 1, mean: 0.3, stdDev: 0.2 },
+    escalationDensity: { min: 0, max: 1, mean: 0.5, stdDev: 0.2 },
+  },
+} as unknown as PatternModel;
+
+describe("getScriptMutationBounds", () => {
+  it("offers only features a rewrite can change", () => {
+    const bounds = getScriptMutationBounds();
+    expect(Object.keys(bounds).sort()).toEqual(["deliveryPaceWps", "punchlineTiming", "setupDuration"]);
+    expect(Object.keys(bounds).every((name) => SCRIPT_CONTROLLABLE_FEATURES.includes(name))).toBe(true);
+  });
+
+  it("gives every drawn mutation a rewrite target", () => {
+    const mutationBounds = getScriptMutationBounds();
+    const stats = Object.fromEntries(listArms(mutationBounds).map((arm) => [arm, { arm, pulls: 1, successes: 0 }]));
+    const rng = createSeededRandom(9);
+    for (let i = 0; i < 30; i++) {
+      const decision = decideBanditStrategy(features, "thompson", stats, { mutationBounds }, rng);
+      // A zero-step mutation leaves nothing to rewrite; the arm itself is still applicable.
+      if (decision.arm === EXPLOIT_ARM || Object.values(decision.mutationParameters!).every((delta) => delta === 0)) continue;
+      expect(explorationRewriteTarget(champion, rawFeatures, decision)).not.toBeNull();
+    }
+  });
+});
+
+describe("explorationRewriteTarget", () => {
+  it("maps the mutated value back into raw units", () => {
+    const mutationBounds = { setupDuration: { min: 0, max: 1, step: 0.15 } };
+    const rng = createSeededRandom(4);
+    let decision = decideExplorationStrategy(features, { epsilon: 1, mutationBounds }, undefined, rng);
+    while (Object.keys(decision.mutationParameters ?? {}).length !== 1 || decision.features.setupDuration === features.setupDuration) {
+      decision = decideExplorationStrategy(features, { epsilon: 1, mutationBounds }, undefined, rng);
+    }
+
+    const target = explorationRewriteTarget(champion, rawFeatures, decision)!;
+    expect(target.featureName).toBe("setupDuration");
+    expect(target.targetValue).toBeCloseTo(decision.features.setupDuration * 30);
+    expect(target.delta).toBeCloseTo(target.targetValue - rawFeatures.setupDuration);
+  });
+
+  it("returns null for exploitation and for features a rewrite can't change", () => {
+    const stats = { [EXPLOIT_ARM]: { arm: EXPLOIT_ARM, pulls: 5, successes: 2 } };
+    const exploit = decideBanditStrategy(features, "ucb", {}, { mutationBounds: {} }, createSeededRandom(1));
+    expect(exploit.arm).toBe(EXPLOIT_ARM);
+    expect(explorationRewriteTarget(champion, rawFeatures, exploit)).toBeNull();
+
+    const tone = decideBanditStrategy(
+      features,
+      "ucb",
+      stats,
+      { mutationBounds: { toneShiftDensity: { min: 0, max: 1, step: 0.2 } } },
+      createSeededRandom(1)
+    );
+    expect(tone.arm).toBe("mutate:toneShiftDensity");
+    expect(explorationRewriteTarget(champion, rawFeatures, tone)).toBeNull();
+  });
+});
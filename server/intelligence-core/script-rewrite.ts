@@ -0,0 +1,167 @@
+import type { AdScript, PatternModel } from "@shared/schema";
+import {
+  getDatasetType,
+  prepareModelFeatures,
+  denormalizeValue,
+  type CategoricalEncoder,
+  type CategoryValues,
+  type FeatureStats,
+} from "./feature-engineering";
+import { loadScoringModel } from "./model-training";
+import { loadExtractionContext } from "./record-ingestion";
+import { scoreFeatures, type ScoredFeatures } from "./prediction";
+import {
+  optimizeFeaturesConstrained,
+  describeFeatureChange,
+  type ConstrainedOptimizationRequest,
+  type ConstrainedOptimizationResult,
+  type FeatureChange,
+  type FeatureConstraint,
+} from "./optimization";
+import { getDefaultMutationBounds, type ExplorationConfig, type ExplorationDecision } from "./exploration";
+
+// ============================================================================
+// Script <-> Feature Mapping
+// ============================================================================
+
+/** Features a rewrite can actually change; everything else stays locked. */
+export const SCRIPT_CONTROLLABLE_FEATURES = ["setupDuration", "punchlineTiming", "duration", "deliveryPaceWps", "wordCount"];
+
+/** The punchline lands after the setup and before the script ends. */
+export const SCRIPT_CONSTRAINTS: FeatureConstraint[] = [
+  { terms: { punchlineTiming: 1, setupDuration: -1 }, op: ">=", value: 0 },
+  { terms: { duration: 1, punchlineTiming: -1 }, op: ">=", value: 0 },
+];
+
+function countWords(text: unknown): number {
+  return typeof text === "string" ? text.split(/\s+/).filter(Boolean).length : 0;
+}
+
+/**
+ * Describes an ad script in the raw record shape the video_ads extractor
+ * reads: scene 1 is the setup, the final scene carries the punchline, and
+ * middle scenes are escalation beats.
+ */
+export function scriptToRawData(script: Pick<AdScript, "scenes" | "totalDuration" | "humorCategory">, platform?: string): Record<string, unknown> {
+  const scenes = Array.isArray(script.scenes) ? (script.scenes as any[]) : [];
+  const durations = scenes.map((scene) => Number(scene?.duration) || 0);
+  const totalDuration = Number(script.totalDuration) || durations.reduce((sum, d) => sum + d, 0);
+  const wordCount = scenes.reduce((sum, scene) => sum + countWords(scene?.dialogue) + countWords(scene?.narration), 0);
+
+  return {
+    setup_duration: durations[0] ?? 0,
+    punchline_timing: durations.slice(0, -1).reduce((sum, d) => sum + d, 0),
+    total_duration: totalDuration,
+    word_count: wordCount,
+    delivery_pace_wps: totalDuration > 0 ? wordCount / totalDuration : 0,
+    escalation_beats: scenes.slice(1, -1).map((scene) => scene?.action ?? ""),
+    humor_category: script.humorCategory,
+    platform: platform ?? null,
+  };
+}
+
+export interface ScriptScore {
+  rawFeatures: Record<string, number>;
+  categories: CategoryValues | undefined;
+  scored: ScoredFeatures;
+}
+
+/** Extracts and scores a script against the champion, with the dataset's records as history. */
+export async function scoreScript(
+  champion: PatternModel,
+  script: Pick<AdScript, "scenes" | "totalDuration" | "humorCategory">,
+  platform?: string
+): Promise<ScriptScore> {
+  const datasetType = "video_ads";
+  const registration = getDatasetType(datasetType);
+  if (!registration) {
+    throw new Error(`No feature extractor registered for dataset type "${datasetType}"`);
+  }
+
+  const rawData = scriptToRawData(script, platform);
+  const context = await loadExtractionContext(champion.datasetId, datasetType);
+  const rawFeatures = registration.featureExtractor(rawData, context);
+  const categories = registration.categoricalExtractor?.(rawData);
+  const scored = scoreFeatures(champion, loadScoringModel(champion), rawFeatures, categories);
+  return { rawFeatures, categories, scored };
+}
+
+/**
+ * Searches the controllable script features for the best feasible targets.
+ * Caller constraints are added to the script's own ordering constraints.
+ */
+export function planScriptTargets(
+  champion: PatternModel,
+  rawFeatures: Record<string, number>,
+  categories: CategoryValues | undefined,
+  request: ConstrainedOptimizationRequest = {}
+): ConstrainedOptimizationResult {
+  const featureStats = champion.featureStats as Record<string, FeatureStats>;
+  const encoders = champion.categoricalEncoders as Record<string, CategoricalEncoder> | null;
+  const model = loadScoringModel(champion);
+
+  const searchBounds = Object.fromEntries(
+    SCRIPT_CONTROLLABLE_FEATURES.filter((name) => featureStats[name] && name in rawFeatures).map((name) => [
+      name,
+      { min: featureStats[name].min, max: featureStats[name].max },
+    ])
+  );
+
+  return optimizeFeaturesConstrained(
+    rawFeatures,
+    (features) => {
+      const normalized = prepareModelFeatures(features, categories, featureStats, encoders);
+      return model.predict(model.featureNames.map((name) => normalized[name] ?? 0));
+    },
+    searchBounds,
+    model.modelType,
+    { ...request, constraints: [...SCRIPT_CONSTRAINTS, ...(request.constraints ?? [])] }
+  );
+}
+
+/**
+ * Mutation arms offered to generated scripts: only features a rewrite can move,
+ * so every arm drawn for a script can be applied and credited.
+ */
+export function getScriptMutationBounds(): ExplorationConfig["mutationBounds"] {
+  return Object.fromEntries(
+    Object.entries(getDefaultMutationBounds()).filter(([name]) => SCRIPT_CONTROLLABLE_FEATURES.includes(name))
+  );
+}
+
+/**
+ * Rewrite target for an exploration arm that mutates one script feature: the
+ * mutated normalized value mapped back into raw units through the champion's
+ * frozen stats. Null when the decision keeps the features, mutates something a
+ * rewrite can't change, or the mutation was clamped to no change at all.
+ */
+export function explorationRewriteTarget(
+  champion: PatternModel,
+  rawFeatures: Record<string, number>,
+  decision: ExplorationDecision
+): FeatureChange | null {
+  const mutated = Object.keys(decision.mutationParameters ?? {});
+  if (decision.groupType !== "exploration" || mutated.length !== 1) return null;
+
+  const featureName = mutated[0];
+  const stats = (champion.featureStats as Record<string, FeatureStats> | null)?.[featureName];
+  if (!stats || !SCRIPT_CONTROLLABLE_FEATURES.includes(featureName) || !(featureName in rawFeatures)) return null;
+
+  const currentValue = rawFeatures[featureName];
+  const targetValue = denormalizeValue(decision.features[featureName], stats);
+  const delta = targetValue - currentValue;
+  if (Math.abs(delta) < 1e-9) return null;
+  return { featureName, currentValue, targetValue, delta, instruction: describeFeatureChange(featureName, currentValue, targetValue) };
+}
+
+export function buildRewritePrompt(script: Pick<AdScript, "scenes" | "brandClose">, plan: Pick<ConstrainedOptimizationResult, "changes">): string {
+  const targets = plan.changes.map((c) => `- ${c.instruction}`).join("\n");
+  return (
+    `Rewrite these scenes so the script hits the following targets. Scene 1 is the setup, the final scene ` +
+    `carries the punchline, and each scene's duration is in seconds. Keep the premise, characters and brand close.\n` +
+    `Targets:\n${targets}\n\n` +
+    `Scenes: ${JSON.stringify(script.scenes)}\n` +
+    `Brand close: ${JSON.stringify(script.brandClose)}\n` +
+    `Return JSON: { title: string, scenes: [{ sceneNumber: number, setting: string, action: string, dialogue: string, narration: string, visualNotes: string, duration: number }], brandClose: { text: string, cta: string, duration: number }, totalDuration: number }`
+  );
+}
@@ -0,0 +1,262 @@
+import { db } from "../db";
+import { patternModels, predictionLogs, shadowPredictions, type ModelSnapshot, type PatternModel, type ShadowPrediction } from "@shared/schema";
+import { eq, and, desc, inArray, isNotNull } from "drizzle-orm";
+import { loadScoringModel, loadTierThresholds, classifyTier, scorePredictionOutcome } from "./model-training";
+import { prepareModelFeatures, type FeatureStats, type CategoryValues, type CategoricalEncoder } from "./feature-engineering";
+import { getChampionModel, promoteModel } from "./model-registry";
+import { getModelTierThresholds } from "./tier-config";
+import { checkpointCondition, FINAL_CHECKPOINT } from "./checkpoints";
+
+// ============================================================================
+// Champion / Challenger Shadow Scoring
+// ============================================================================
+
+export const MAX_CHALLENGERS = 3;
+
+export interface RollingMetrics {
+  directionalAccuracy: number;
+  tierAccuracy: number;
+  meanAbsoluteError: number;
+  sampleCount: number;
+}
+
+export interface ChallengerComparison {
+  modelId: string;
+  version: number | null;
+  sampleCount: number;
+  champion: RollingMetrics;
+  challenger: RollingMetrics;
+  wins: number;
+  losses: number;
+  pValue: number;
+  significantlyBetter: boolean;
+}
+
+export interface ChampionChallengerReport {
+  championId: string | null;
+  championVersion: number | null;
+  windowSize: number;
+  challengers: ChallengerComparison[];
+}
+
+async function getChallengers(datasetId: string): Promise<PatternModel[]> {
+  return db
+    .select()
+    .from(patternModels)
+    .where(and(eq(patternModels.datasetId, datasetId), eq(patternModels.status, "candidate")))
+    .orderBy(desc(patternModels.version))
+    .limit(MAX_CHALLENGERS);
+}
+
+/**
+ * Scores the raw input of a freshly locked snapshot with the newest candidate
+ * models. Each challenger normalizes with its own frozen stats, so a challenger
+ * trained on a different feature set or scaling is still scored fairly.
+ */
+export async function scoreChallengers(
+  snapshot: ModelSnapshot,
+  rawFeatures: Record<string, number>,
+  categories?: CategoryValues
+): Promise<ShadowPrediction[]> {
+  const challengers = (await getChallengers(snapshot.datasetId)).filter((m) => m.id !== snapshot.modelId);
+  if (challengers.length === 0) return [];
+
+  const rows = [];
+  for (const challenger of challengers) {
+    const featureStats = challenger.featureStats as Record<string, FeatureStats> | null;
+    if (!featureStats) continue;
+
+    const model = loadScoringModel(challenger);
+    const normalized = prepareModelFeatures(
+      rawFeatures,
+      categories,
+      featureStats,
+      challenger.categoricalEncoders as Record<string, CategoricalEncoder> | null
+    );
+    const predictedValue = model.predict(model.featureNames.map((name) => normalized[name] ?? 0));
+
+    rows.push({
+      snapshotId: snapshot.id,
+      datasetId: snapshot.datasetId,
+      modelId: challenger.id,
+      championModelId: snapshot.modelId,
+      predictedValue,
+      predictedTier: classifyTier(predictedValue, loadTierThresholds(challenger.tierThresholds)),
+    });
+  }
+
+  if (rows.length === 0) return [];
+  return db.insert(shadowPredictions).values(rows).returning();
+}
+
+export async function validateShadowPredictions(snapshotId: string, actualValue: number): Promise<ShadowPrediction[]> {
+  const pending = await db
+    .select()
+    .from(shadowPredictions)
+    .where(eq(shadowPredictions.snapshotId, snapshotId));
+
+  const updated: ShadowPrediction[] = [];
+  for (const shadow of pending) {
+    const thresholds = await getModelTierThresholds(shadow.modelId);
+    const outcome = scorePredictionOutcome(shadow.predictedValue, shadow.predictedTier, actualValue, thresholds);
+    const [row] = await db
+      .update(shadowPredictions)
+      .set({ actualValue, ...outcome, validatedAt: new Date() })
+      .where(eq(shadowPredictions.id, shadow.id))
+      .returning();
+    updated.push(row);
+  }
+  return updated;
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+function summarize(rows: Array<{ directionallyCorrect: boolean | null; tierCorrect: boolean | null; absoluteError: number | null }>): RollingMetrics {
+  if (rows.length === 0) {
+    return { directionalAccuracy: 0, tierAccuracy: 0, meanAbsoluteError: 0, sampleCount: 0 };
+  }
+  let directionalCount = 0;
+  let tierCount = 0;
+  let totalAbsError = 0;
+  for (const row of rows) {
+    if (row.directionallyCorrect) directionalCount++;
+    if (row.tierCorrect) tierCount++;
+    totalAbsError += row.absoluteError ?? 0;
+  }
+  return {
+    directionalAccuracy: directionalCount / rows.length,
+    tierAccuracy: tierCount / rows.length,
+    meanAbsoluteError: totalAbsError / rows.length,
+    sampleCount: rows.length,
+  };
+}
+
+function logFactorial(n: number): number {
+  let result = 0;
+  for (let i = 2; i <= n; i++) result += Math.log(i);
+  return result;
+}
+
+/**
+ * One-sided exact sign test: probability of at least `wins` successes out of
+ * `wins + losses` fair coin flips. Ties are excluded before calling.
+ */
+export function signTestPValue(wins: number, losses: number): number {
+  const n = wins + losses;
+  if (n === 0) return 1;
+  let p = 0;
+  for (let k = wins; k <= n; k++) {
+    p += Math.exp(logFactorial(n) - logFactorial(k) - logFactorial(n - k) - n * Math.LN2);
+  }
+  return Math.min(1, p);
+}
+
+/**
+ * Compares each challenger against the current champion on the same validated
+ * snapshots (the last `windowSize` the champion served). A challenger is
+ * significantly better when it has lower MAE and wins the paired sign test on
+ * absolute error at `alpha`.
+ */
+export async function compareChampionChallengers(
+  datasetId: string,
+  windowSize: number = 20,
+  alpha: number = 0.05
+): Promise<ChampionChallengerReport> {
+  const champion = await getChampionModel(datasetId);
+  const report: ChampionChallengerReport = {
+    championId: champion?.id ?? null,
+    championVersion: champion?.version ?? null,
+    windowSize,
+    challengers: [],
+  };
+  if (!champion) return report;
+
+  const challengers = await getChallengers(datasetId);
+  for (const challenger of challengers) {
+    const shadows = await db
+      .select()
+      .from(shadowPredictions)
+      .where(
+        and(
+          eq(shadowPredictions.modelId, challenger.id),
+          eq(shadowPredictions.championModelId, champion.id),
+          isNotNull(shadowPredictions.validatedAt)
+        )
+      )
+      .orderBy(desc(shadowPredictions.validatedAt))
+      .limit(windowSize);
+
+    const snapshotIds = shadows.map((s) => s.snapshotId);
+    const championLogs = snapshotIds.length > 0
+      ? await db
+          .select()
+          .from(predictionLogs)
+          .where(
+            and(
+              eq(predictionLogs.modelId, champion.id),
+              inArray(predictionLogs.snapshotId, snapshotIds),
+              // Shadows are only scored at the final checkpoint; compare like with like.
+              checkpointCondition(FINAL_CHECKPOINT)
+            )
+          )
+      : [];
+    const championBySnapshot = new Map(championLogs.map((log) => [log.snapshotId, log]));
+
+    const pairedShadows = shadows.filter((s) => championBySnapshot.has(s.snapshotId));
+    const pairedLogs = pairedShadows.map((s) => championBySnapshot.get(s.snapshotId)!);
+
+    let wins = 0;
+    let losses = 0;
+    pairedShadows.forEach((shadow, i) => {
+      const diff = (pairedLogs[i].absoluteError ?? 0) - (shadow.absoluteError ?? 0);
+      if (diff > 0) wins++;
+      else if (diff < 0) losses++;
+    });
+
+    const championMetrics = summarize(pairedLogs);
+    const challengerMetrics = summarize(pairedShadows);
+    const pValue = signTestPValue(wins, losses);
+
+    report.challengers.push({
+      modelId: challenger.id,
+      version: challenger.version,
+      sampleCount: pairedShadows.length,
+      champion: championMetrics,
+      challenger: challengerMetrics,
+      wins,
+      losses,
+      pValue,
+      significantlyBetter:
+        pairedShadows.length > 0 &&
+        challengerMetrics.meanAbsoluteError < championMetrics.meanAbsoluteError &&
+        pValue < alpha,
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Promotes the best significantly-better challenger, if any has at least
+ * `minSamples` paired validations. Returns the comparison that drove the decision.
+ */
+export async function autoPromoteChallenger(
+  datasetId: string,
+  options: { windowSize?: number; alpha?: number; minSamples?: number } = {}
+): Promise<{ report: ChampionChallengerReport; promoted: PatternModel | null }> {
+  const report = await compareChampionChallengers(datasetId, options.windowSize, options.alpha);
+  const minSamples = options.minSamples ?? 10;
+
+  const eligible = report.challengers
+    .filter((c) => c.significantlyBetter && c.sampleCount >= minSamples)
+    .sort((a, b) => a.challenger.meanAbsoluteError - b.challenger.meanAbsoluteError);
+
+  if (eligible.length === 0) {
+    return { report, promoted: null };
+  }
+
+  const { champion } = await promoteModel(datasetId, eligible[0].modelId);
+  return { report, promoted: champion };
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import type { ModelSnapshot } from "@shared/schema";
+import { canonicalJson, hashSnapshotPayload, verifySnapshotChain, type SnapshotPayload } from "./snapshot-integrity";
+
+// Mirrors createSnapshot: the row stores the canonical payload and its hash.
+function makeSnapshot(id: string, chainIndex: number, previousHash: string | null, overrides: Partial<SnapshotPayload> = {}): ModelSnapshot {
+  const payload: SnapshotPayload = {
+    datasetId: "dataset-1",
+    modelId: "model-1",
+    featureVector: [0.1, 0.2],
+    coefficients: { intercept: 1, weights: [2, 3] },
+    predictedValue: 1.3,
+    predictedTier: "mid",
+    confidence: 0.8,
+    predictionLower: 0.9,
+    predictionUpper: 1.7,
+    seed: 42,
+    sourceId: null,
+    sourceType: null,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    chainIndex,
+    previousHash,
+    ...overrides,
+  };
+  const hashPayload = canonicalJson(payload);
+  return {
+    id,
+    datasetId: payload.datasetId,
+    modelId: payload.modelId,
+    featureVector: payload.featureVector,
+    coefficientsUsed: payload.coefficients,
+    predictedValue: Math.fround(payload.predictedValue),
+    predictedTier: payload.predictedTier,
+    confidence: payload.confidence === null ? null : Math.fround(payload.confidence),
+    predictionLower: payload.predictionLower === null ? null : Math.fround(payload.predictionLower),
+    predictionUpper: payload.predictionUpper === null ? null : Math.fround(payload.predictionUpper),
+    intervalLevel: 0.9,
+    tierProbabilities: null,
+    seed: payload.seed,
+    hashSignature: hashSnapshotPayload(hashPayload),
+    hashPayload,
+    previousHash,
+    chainIndex,
+    uploadConfirmed: false,
+    uploadConfirmedAt: null,
+    performanceTrackingStarted: false,
+    trackingStartedAt: null,
+    lifecycleState: "locked",
+    validatedAt: null,
+    sourceId: payload.sourceId,
+    sourceType: payload.sourceType,
+    isLocked: true,
+    createdAt: new Date(payload.timestamp),
+  };
+}
+
+function makeChain(): [ModelSnapshot, ModelSnapshot, ModelSnapshot] {
+  const first = makeSnapshot("s1", 1, null);
+  const second = makeSnapshot("s2", 2, first.hashSignature, { predictedValue: 2.1 });
+  const third = makeSnapshot("s3", 3, second.hashSignature, { predictedValue: 0.4 });
+  return [first, second, third];
+}
+
+describe("canonicalJson", () => {
+  it("sorts keys at every level", () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, { f: 2, e: 3 }], c: null } })).toBe('{"a":{"c":null,"d":[1,{"e":3,"f":2}]},"b":1}');
+  });
+
+  it("drops undefined properties and nulls undefined array entries", () => {
+    expect(canonicalJson({ a: undefined, b: [undefined, 1] })).toBe('{"b":[null,1]}');
+    expect(canonicalJson(undefined)).toBe("null");
+  });
+});
+
+describe("hashSnapshotPayload", () => {
+  it("is a hex sha256 of the payload", () => {
+    expect(hashSnapshotPayload("")).toBe("e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855");
+  });
+});
+
+describe("verifySnapshotChain", () => {
+  it("accepts an untouched chain", () => {
+    const [first, second, third] = makeChain();
+
+    expect(verifySnapshotChain(first, null, second).valid).toBe(true);
+    expect(verifySnapshotChain(second, first, third).valid).toBe(true);
+    const last = verifySnapshotChain(third, second, null);
+    expect(last.valid).toBe(true);
+    expect(last.timestamp).toBe("2026-01-01T00:00:00.000Z");
+    expect(last.chain).toEqual({ chainIndex: 3, previousHash: second.hashSignature, previousLinkValid: true, nextLinkValid: true });
+  });
+
+  it("compares float4 columns at float4 precision", () => {
+    const [first] = makeChain();
+    expect(first.predictedValue).not.toBe(1.3);
+    expect(verifySnapshotChain(first, null, null).mismatchedFields).toEqual([]);
+  });
+
+  it("reports columns edited after the hash was taken", () => {
+    const [first, second, third] = makeChain();
+    const tampered = { ...second, predictedValue: 9, featureVector: [1, 1] };
+
+    const result = verifySnapshotChain(tampered, first, third);
+    expect(result.valid).toBe(false);
+    expect(result.hashValid).toBe(true);
+    expect(result.mismatchedFields).toEqual(["featureVector", "predictedValue"]);
+  });
+
+  it("detects a rewritten payload", () => {
+    const [first, second, third] = makeChain();
+    const tampered = { ...second, hashPayload: second.hashPayload!.replace('"predictedValue":2.1', '"predictedValue":3') };
+
+    const result = verifySnapshotChain(tampered, first, third);
+    expect(result.hashValid).toBe(false);
+    expect(result.valid).toBe(false);
+  });
+
+  it("detects broken links on either side", () => {
+    const [first, second, third] = makeChain();
+    const forked = makeSnapshot("s3b", 3, "not-the-previous-hash");
+
+    expect(verifySnapshotChain(forked, second, null).chain.previousLinkValid).toBe(false);
+    expect(verifySnapshotChain(second, first, forked).chain.nextLinkValid).toBe(false);
+    expect(verifySnapshotChain(second, first, third).chain.nextLinkValid).toBe(true);
+  });
+
+  it("requires a chain head to be the first snapshot", () => {
+    const orphan = makeSnapshot("s9", 9, null);
+    expect(verifySnapshotChain(orphan, null, null).chain.previousLinkValid).toBe(false);
+  });
+
+  it("reports snapshots without a stored payload as unverifiable", () => {
+    const legacy = { ...makeSnapshot("s0", 1, null), hashPayload: null, chainIndex: null };
+    const result = verifySnapshotChain(legacy, null, null);
+    expect(result.verifiable).toBe(false);
+    expect(result.valid).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+import crypto from "crypto";
+import type { ModelSnapshot } from "@shared/schema";
+
+// ============================================================================
+// Snapshot Hash Chain
+// ============================================================================
+
+/**
+ * Everything a snapshot commits to before release. The exact canonical string
+ * is stored on the snapshot as hash_payload, so hash_signature can always be
+ * re-derived, and previousHash links each snapshot to the one before it in
+ * the same dataset.
+ */
+export interface SnapshotPayload {
+  datasetId: string;
+  modelId: string | null;
+  featureVector: unknown;
+  coefficients: unknown;
+  predictedValue: number;
+  predictedTier: string | null;
+  confidence: number | null;
+  predictionLower: number | null;
+  predictionUpper: number | null;
+  seed: number | null;
+  sourceId: string | null;
+  sourceType: string | null;
+  timestamp: string;
+  chainIndex: number;
+  previousHash: string | null;
+}
+
+// Columns stored as real (float4); compared at float4 precision.
+const FLOAT4_FIELDS = new Set(["predictedValue", "confidence", "predictionLower", "predictionUpper"]);
+
+/** JSON with object keys sorted at every level, so jsonb key reordering can't change the hash. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item === undefined ? null : item)).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function hashSnapshotPayload(canonicalPayload: string): string {
+  return crypto.createHash("sha256").update(canonicalPayload).digest("hex");
+}
+
+function payloadFromRow(snapshot: ModelSnapshot, timestamp: string): SnapshotPayload {
+  return {
+    datasetId: snapshot.datasetId,
+    modelId: snapshot.modelId,
+    featureVector: snapshot.featureVector,
+    coefficients: snapshot.coefficientsUsed,
+    predictedValue: snapshot.predictedValue,
+    predictedTier: snapshot.predictedTier,
+    confidence: snapshot.confidence,
+    predictionLower: snapshot.predictionLower,
+    predictionUpper: snapshot.predictionUpper,
+    seed: snapshot.seed,
+    sourceId: snapshot.sourceId,
+    sourceType: snapshot.sourceType,
+    timestamp,
+    chainIndex: snapshot.chainIndex ?? 0,
+    previousHash: snapshot.previousHash,
+  };
+}
+
+function sameValue(field: string, committed: unknown, stored: unknown): boolean {
+  if (FLOAT4_FIELDS.has(field) && typeof committed === "number" && typeof stored === "number") {
+    return Math.fround(committed) === Math.fround(stored);
+  }
+  return canonicalJson(committed) === canonicalJson(stored);
+}
+
+export interface SnapshotVerification {
+  snapshotId: string;
+  verifiable: boolean;
+  valid: boolean;
+  hashValid: boolean;
+  /** Stored columns that no longer match what the hash committed to. */
+  mismatchedFields: string[];
+  timestamp: string | null;
+  chain: {
+    chainIndex: number | null;
+    previousHash: string | null;
+    previousLinkValid: boolean;
+    nextLinkValid: boolean;
+  };
+}
+
+/**
+ * Re-derives the snapshot's hash from its stored payload, checks the payload
+ * against the snapshot's current columns, and checks both chain links:
+ * `previous` must carry the committed previousHash (or be absent for the first
+ * snapshot) and `next`, when there is one, must point back at this hash.
+ * Snapshots created before payloads were stored are reported as unverifiable.
+ */
+export function verifySnapshotChain(
+  snapshot: ModelSnapshot,
+  previous: ModelSnapshot | null,
+  next: ModelSnapshot | null
+): SnapshotVerification {
+  if (!snapshot.hashPayload) {
+    return {
+      snapshotId: snapshot.id,
+      verifiable: false,
+      valid: false,
+      hashValid: false,
+      mismatchedFields: [],
+      timestamp: null,
+      chain: { chainIndex: null, previousHash: null, previousLinkValid: false, nextLinkValid: false },
+    };
+  }
+
+  const hashValid = hashSnapshotPayload(snapshot.hashPayload) === snapshot.hashSignature;
+
+  let committed: Partial<SnapshotPayload> = {};
+  try {
+    committed = JSON.parse(snapshot.hashPayload);
+  } catch {
+    committed = {};
+  }
+  const timestamp = typeof committed.timestamp === "string" ? committed.timestamp : null;
+  const current = payloadFromRow(snapshot, timestamp ?? "");
+  const mismatchedFields = (Object.keys(current) as Array<keyof SnapshotPayload>).filter(
+    (field) => !sameValue(field, committed[field] ?? null, current[field])
+  );
+
+  const previousLinkValid =
+    current.previousHash === null ? previous === null && current.chainIndex === 1 : previous?.hashSignature === current.previousHash;
+  const nextLinkValid = next === null || next.previousHash === snapshot.hashSignature;
+
+  return {
+    snapshotId: snapshot.id,
+    verifiable: true,
+    valid: hashValid && mismatchedFields.length === 0 && previousLinkValid && nextLinkValid,
+    hashValid,
+    mismatchedFields,
+    timestamp,
+    chain: {
+      chainIndex: snapshot.chainIndex,
+      previousHash: snapshot.previousHash,
+      previousLinkValid,
+      nextLinkValid,
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  SNAPSHOT_STATES,
+  SnapshotLifecycleError,
+  assertTransition,
+  isSnapshotState,
+  resolveSnapshotState,
+  snapshotState,
+} from "./snapshot-lifecycle";
+
+const locked = { lifecycleState: "locked", uploadConfirmed: false, performanceTrackingStarted: false, validatedAt: null };
+
+// Stands in for the select chain resolveSnapshotState runs against prediction_logs.
+function executorReturning(rows: { id: string }[]): any {
+  const chain = { from: () => chain, where: () => chain, limit: async () => rows };
+  return { select: () => chain };
+}
+
+describe("isSnapshotState", () => {
+  it("accepts only lifecycle states", () => {
+    for (const state of SNAPSHOT_STATES) expect(isSnapshotState(state)).toBe(true);
+    expect(isSnapshotState("archived")).toBe(false);
+    expect(isSnapshotState(null)).toBe(false);
+  });
+});
+
+describe("snapshotState", () => {
+  it("trusts stored states past locked", () => {
+    expect(snapshotState({ ...locked, lifecycleState: "tracking", uploadConfirmed: true, performanceTrackingStarted: true })).toBe("tracking");
+    expect(snapshotState({ ...locked, lifecycleState: "upload_confirmed", uploadConfirmed: true })).toBe("upload_confirmed");
+  });
+
+  it("reads a locked row without flags as locked", () => {
+    expect(snapshotState(locked)).toBe("locked");
+    expect(snapshotState({ ...locked, lifecycleState: null })).toBe("locked");
+  });
+
+  it("derives legacy rows from the flags they recorded", () => {
+    expect(snapshotState({ ...locked, uploadConfirmed: true })).toBe("upload_confirmed");
+    expect(snapshotState({ ...locked, uploadConfirmed: true, performanceTrackingStarted: true })).toBe("tracking");
+    expect(snapshotState({ ...locked, lifecycleState: null, performanceTrackingStarted: true })).toBe("tracking");
+    expect(snapshotState({ ...locked, validatedAt: new Date() })).toBe("validated");
+  });
+
+  it("derives unknown stored states from the flags", () => {
+    expect(snapshotState({ ...locked, lifecycleState: "pending", uploadConfirmed: true })).toBe("upload_confirmed");
+  });
+});
+
+describe("resolveSnapshotState", () => {
+  it("treats a legacy snapshot with a final prediction log as validated", async () => {
+    const snapshot = { ...locked, id: "s1", uploadConfirmed: true, performanceTrackingStarted: true };
+    expect(await resolveSnapshotState(snapshot, executorReturning([{ id: "log-1" }]))).toBe("validated");
+    expect(await resolveSnapshotState(snapshot, executorReturning([]))).toBe("tracking");
+  });
+
+  it("skips the lookup once the row itself reads validated", async () => {
+    const executor = { select: () => { throw new Error("unexpected query"); } } as any;
+    expect(await resolveSnapshotState({ ...locked, id: "s1", lifecycleState: "validated" }, executor)).toBe("validated");
+  });
+});
+
+describe("assertTransition", () => {
+  it("allows each state to move one step forward", () => {
+    expect(() => assertTransition("locked", "upload_confirmed")).not.toThrow();
+    expect(() => assertTransition("upload_confirmed", "tracking")).not.toThrow();
+    expect(() => assertTransition("tracking", "validated")).not.toThrow();
+  });
+
+  it("rejects skipped, repeated and backward steps with a 409", () => {
+    for (const [from, to] of [
+      ["locked", "tracking"],
+      ["tracking", "tracking"],
+      ["tracking", "locked"],
+    ] as const) {
+      try {
+        assertTransition(from, to);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(SnapshotLifecycleError);
+        expect((error as SnapshotLifecycleError).statusCode).toBe(409);
+      }
+    }
+  });
+
+  it("points validated snapshots at amendments", () => {
+    expect(() => assertTransition("validated", "validated")).toThrow(/Amend the validation/);
+  });
+});
@@ -0,0 +1,140 @@
+import { db } from "../db";
+import { modelSnapshots, predictionLogs, type ModelSnapshot } from "@shared/schema";
+import { eq, and, desc, isNull } from "drizzle-orm";
+import { checkpointCondition, FINAL_CHECKPOINT } from "./checkpoints";
+
+// ============================================================================
+// Snapshot Lifecycle
+// ============================================================================
+
+/**
+ * locked -> upload_confirmed -> tracking -> validated. Snapshots are created
+ * locked; their committed prediction never changes, only the lifecycle
+ * columns move forward. A validated snapshot is corrected through an
+ * amendment, never by validating again.
+ */
+export const SNAPSHOT_STATES = ["locked", "upload_confirmed", "tracking", "validated"] as const;
+export type SnapshotState = (typeof SNAPSHOT_STATES)[number];
+
+const NEXT_STATE: Record<SnapshotState, SnapshotState | null> = {
+  locked: "upload_confirmed",
+  upload_confirmed: "tracking",
+  tracking: "validated",
+  validated: null,
+};
+
+export class SnapshotLifecycleError extends Error {
+  constructor(message: string, public statusCode: number = 409) {
+    super(message);
+    this.name = "SnapshotLifecycleError";
+  }
+}
+
+export function isSnapshotState(value: unknown): value is SnapshotState {
+  return typeof value === "string" && (SNAPSHOT_STATES as readonly string[]).includes(value);
+}
+
+type LifecycleColumns = Pick<ModelSnapshot, "lifecycleState" | "uploadConfirmed" | "performanceTrackingStarted" | "validatedAt">;
+
+/**
+ * The snapshot's lifecycle state. Snapshots from before lifecycle_state
+ * existed read as locked (or null) there, so their state is derived from the
+ * flags they did record. Lifecycle transitions always set the flag and the
+ * state together, so a locked row with a flag set can only be such a legacy row.
+ */
+export function snapshotState(snapshot: LifecycleColumns): SnapshotState {
+  if (isSnapshotState(snapshot.lifecycleState) && snapshot.lifecycleState !== "locked") {
+    return snapshot.lifecycleState;
+  }
+  if (snapshot.validatedAt) return "validated";
+  if (snapshot.performanceTrackingStarted) return "tracking";
+  if (snapshot.uploadConfirmed) return "upload_confirmed";
+  return "locked";
+}
+
+/**
+ * snapshotState, plus the one legacy signal that isn't on the row: snapshots
+ * validated before validatedAt existed only left a final prediction log.
+ */
+export async function resolveSnapshotState(
+  snapshot: LifecycleColumns & Pick<ModelSnapshot, "id">,
+  executor: Pick<typeof db, "select"> = db
+): Promise<SnapshotState> {
+  const state = snapshotState(snapshot);
+  if (state === "validated") return state;
+  const [finalLog] = await executor
+    .select({ id: predictionLogs.id })
+    .from(predictionLogs)
+    .where(and(eq(predictionLogs.snapshotId, snapshot.id), checkpointCondition(FINAL_CHECKPOINT)))
+    .limit(1);
+  return finalLog ? "validated" : state;
+}
+
+export async function getSnapshotOrThrow(snapshotId: string, executor: Pick<typeof db, "select"> = db): Promise<ModelSnapshot> {
+  const [snapshot] = await executor
+    .select()
+    .from(modelSnapshots)
+    .where(eq(modelSnapshots.id, snapshotId))
+    .limit(1);
+  if (!snapshot) {
+    throw new SnapshotLifecycleError("Snapshot not found", 404);
+  }
+  return snapshot;
+}
+
+export function assertTransition(from: SnapshotState, to: SnapshotState): void {
+  if (NEXT_STATE[from] !== to) {
+    const hint = from === "validated" ? " Amend the validation to correct it." : "";
+    throw new SnapshotLifecycleError(`Cannot move snapshot from ${from} to ${to}.${hint}`);
+  }
+}
+
+/**
+ * Moves a snapshot one step along the lifecycle. The update is conditional on
+ * the stored state it was read in, so two concurrent requests can't both succeed.
+ */
+export async function transitionSnapshot(
+  snapshotId: string,
+  to: SnapshotState,
+  changes: Partial<Pick<ModelSnapshot, "uploadConfirmed" | "uploadConfirmedAt" | "performanceTrackingStarted" | "trackingStartedAt" | "validatedAt">> = {},
+  executor: Pick<typeof db, "select" | "update"> = db
+): Promise<ModelSnapshot> {
+  const snapshot = await getSnapshotOrThrow(snapshotId, executor);
+  const from = await resolveSnapshotState(snapshot, executor);
+  assertTransition(from, to);
+
+  const [updated] = await executor
+    .update(modelSnapshots)
+    .set({ ...changes, lifecycleState: to })
+    .where(
+      and(
+        eq(modelSnapshots.id, snapshotId),
+        snapshot.lifecycleState === null
+          ? isNull(modelSnapshots.lifecycleState)
+          : eq(modelSnapshots.lifecycleState, snapshot.lifecycleState)
+      )
+    )
+    .returning();
+
+  if (!updated) {
+    throw new SnapshotLifecycleError(`Snapshot changed state concurrently; expected ${from}`);
+  }
+  return updated;
+}
+
+export async function listSnapshotsByState(
+  datasetId: string,
+  state?: SnapshotState,
+  limit: number = 50
+): Promise<ModelSnapshot[]> {
+  return db
+    .select()
+    .from(modelSnapshots)
+    .where(
+      state
+        ? and(eq(modelSnapshots.datasetId, datasetId), eq(modelSnapshots.lifecycleState, state))
+        : eq(modelSnapshots.datasetId, datasetId)
+    )
+    .orderBy(desc(modelSnapshots.createdAt))
+    .limit(limit);
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import {
+  MIN_DRIFT_SAMPLES,
+  MIN_RESIDUAL_SAMPLES,
+  REFERENCE_SAMPLE_SIZE,
+  buildReferenceDistributions,
+  compareFeatureDistribution,
+  cusum,
+  detectResidualShift,
+  kolmogorovSmirnov,
+  pageHinkley,
+  populationStabilityIndex,
+} from "./statistical-drift";
+import { createSeededRandom } from "./random";
+
+// Seeded standard normal draws (Box-Muller), shifted by `mean`.
+function normals(n: number, seed: number, mean: number = 0): number[] {
+  const rng = createSeededRandom(seed);
+  return Array.from({ length: n }, () => mean + Math.sqrt(-2 * Math.log(1 - rng.next())) * Math.cos(2 * Math.PI * rng.next()));
+}
+
+describe("buildReferenceDistributions", () => {
+  it("keeps a sorted sample per feature and skips non-finite values", () => {
+    const distributions = buildReferenceDistributions([{ a: 3, b: 1 }, { a: 1 }, { a: 2, b: Number.NaN }]);
+    expect(distributions).toEqual({ a: { count: 3, sample: [1, 2, 3] }, b: { count: 1, sample: [1] } });
+  });
+
+  it("thins large samples to evenly spaced order statistics", () => {
+    const rows = Array.from({ length: 2001 }, (_, i) => ({ x: 2000 - i }));
+    const { x } = buildReferenceDistributions(rows);
+
+    expect(x.count).toBe(2001);
+    expect(x.sample).toHaveLength(REFERENCE_SAMPLE_SIZE);
+    expect(x.sample[0]).toBe(0);
+    expect(x.sample[REFERENCE_SAMPLE_SIZE - 1]).toBe(2000);
+  });
+});
+
+describe("populationStabilityIndex", () => {
+  it("is near zero for samples from the same distribution", () => {
+    expect(populationStabilityIndex(normals(1000, 1), normals(1000, 2))).toBeLessThan(0.05);
+  });
+
+  it("is large for a shifted distribution", () => {
+    expect(populationStabilityIndex(normals(1000, 1), normals(1000, 2, 1.5))).toBeGreaterThan(0.25);
+  });
+
+  it("handles a constant reference and empty inputs", () => {
+    expect(populationStabilityIndex([5, 5, 5, 5], [5, 5])).toBeCloseTo(0);
+    expect(populationStabilityIndex([5, 5, 5, 5], [6, 6])).toBeGreaterThan(0.25);
+    expect(populationStabilityIndex([], [1])).toBe(0);
+  });
+});
+
+describe("kolmogorovSmirnov", () => {
+  it("measures the largest gap between the empirical CDFs", () => {
+    expect(kolmogorovSmirnov([1, 2, 3, 4], [1, 2, 3, 4])).toEqual({ statistic: 0, pValue: 1 });
+    expect(kolmogorovSmirnov([1, 2, 3, 4], [3, 4, 5, 6]).statistic).toBe(0.5);
+    expect(kolmogorovSmirnov([1, 2], [10, 20]).statistic).toBe(1);
+  });
+
+  it("rejects a shifted sample and keeps a matching one", () => {
+    expect(kolmogorovSmirnov(normals(300, 1), normals(300, 2)).pValue).toBeGreaterThan(0.05);
+    expect(kolmogorovSmirnov(normals(300, 1), normals(300, 2, 0.5)).pValue).toBeLessThan(0.01);
+  });
+
+  it("treats empty samples as no evidence", () => {
+    expect(kolmogorovSmirnov([], [1, 2])).toEqual({ statistic: 0, pValue: 1 });
+  });
+});
+
+describe("compareFeatureDistribution", () => {
+  const reference = buildReferenceDistributions(normals(1000, 1).map((x) => ({ x }))).x;
+
+  it("needs enough samples on both sides", () => {
+    const drift = compareFeatureDistribution("x", reference, normals(MIN_DRIFT_SAMPLES - 1, 2));
+    expect(drift.status).toBe("insufficient_data");
+    expect(drift.psi).toBeNull();
+    expect(compareFeatureDistribution("x", undefined, normals(100, 2)).status).toBe("insufficient_data");
+  });
+
+  it("bands features by PSI", () => {
+    expect(compareFeatureDistribution("x", reference, normals(500, 2)).status).toBe("stable");
+    const shifted = compareFeatureDistribution("x", reference, normals(500, 2, 2));
+    expect(shifted.status).toBe("significant");
+    expect(shifted.recentMean).toBeGreaterThan(shifted.referenceMean! + 1.5);
+  });
+
+  it("raises a stable PSI to moderate when KS rejects", () => {
+    // Same decile masses, different shape: every recent value sits at the bottom of its decile.
+    const uniform = { count: 500, sample: Array.from({ length: 500 }, (_, i) => i / 500) };
+    const recent = Array.from({ length: 2000 }, (_, i) => Math.floor(i / 200) / 10 + 0.0001);
+    const drift = compareFeatureDistribution("x", uniform, recent);
+
+    expect(drift.psi!).toBeLessThan(0.1);
+    expect(drift.ks!.pValue).toBeLessThan(0.01);
+    expect(drift.status).toBe("moderate");
+  });
+});
+
+describe("pageHinkley", () => {
+  it("does not alarm on noise or a constant bias", () => {
+    expect(pageHinkley(normals(100, 3)).detected).toBe(false);
+    expect(pageHinkley(new Array(100).fill(2)).detected).toBe(false);
+  });
+
+  it("alarms soon after the mean moves, in the direction it moved", () => {
+    const series = [...normals(50, 4), ...normals(50, 5, 2)];
+    const up = pageHinkley(series);
+    expect(up.detected).toBe(true);
+    expect(up.direction).toBe("underestimation");
+    expect(up.alarmIndex!).toBeGreaterThanOrEqual(50);
+    expect(up.alarmIndex!).toBeLessThan(65);
+
+    expect(pageHinkley(series.map((x) => -x)).direction).toBe("overestimation");
+  });
+});
+
+describe("cusum", () => {
+  it("does not alarm on zero-mean noise", () => {
+    expect(cusum(normals(100, 3)).detected).toBe(false);
+  });
+
+  it("alarms on sustained bias in either direction", () => {
+    const over = cusum(new Array(20).fill(-1.5));
+    expect(over.detected).toBe(true);
+    expect(over.direction).toBe("overestimation");
+    // Each step adds 1.5 - 0.5 = 1, so the statistic passes h = 8 on the ninth.
+    expect(over.alarmIndex).toBe(8);
+
+    expect(cusum(new Array(20).fill(1.5)).direction).toBe("underestimation");
+  });
+});
+
+describe("detectResidualShift", () => {
+  const logsFor = (residuals: number[]) =>
+    residuals.map((residual, i) => ({ predictedValue: 10, actualValue: 10 + residual, createdAt: new Date(Date.UTC(2026, 0, 1 + i)) }));
+
+  it("needs enough validated logs", () => {
+    const logs = [...logsFor(new Array(MIN_RESIDUAL_SAMPLES - 1).fill(1)), { predictedValue: 1, actualValue: null, createdAt: null }];
+    const drift = detectResidualShift(logs, 1);
+    expect(drift.sampleCount).toBe(MIN_RESIDUAL_SAMPLES - 1);
+    expect(drift.pageHinkley).toBeNull();
+    expect(drift.cusum).toBeNull();
+  });
+
+  it("scales residuals by the training error spread", () => {
+    const residuals = new Array(20).fill(3);
+    expect(detectResidualShift(logsFor(residuals), 1).cusum!.detected).toBe(true);
+    expect(detectResidualShift(logsFor(residuals), 10).cusum!.detected).toBe(false);
+  });
+
+  it("dates the change at the earliest alarm", () => {
+    const drift = detectResidualShift(logsFor(new Array(20).fill(1.5)), 1);
+    expect(drift.meanResidual).toBeCloseTo(1.5);
+    expect(drift.changeDetectedAt).toEqual(new Date(Date.UTC(2026, 0, 9)));
+  });
+});
@@ -0,0 +1,404 @@
+import { db } from "../db";
+import { datasetRecords, predictionLogs, type Dataset, type PatternModel } from "@shared/schema";
+import { eq, and, desc, isNotNull } from "drizzle-orm";
+import { extractFeaturesForRecords } from "./feature-engineering";
+import { checkpointCondition, FINAL_CHECKPOINT, type ValidationCheckpoint } from "./checkpoints";
+
+// ============================================================================
+// Reference Distributions
+// ============================================================================
+
+/**
+ * Training-time distribution of one raw feature, frozen on the model as a
+ * sorted sample of at most REFERENCE_SAMPLE_SIZE evenly spaced order
+ * statistics. `count` is the number of training rows it summarizes.
+ */
+export interface ReferenceDistribution {
+  count: number;
+  sample: number[];
+}
+
+export const REFERENCE_SAMPLE_SIZE = 500;
+
+function quantileSample(sorted: number[], size: number): number[] {
+  if (sorted.length <= size) return sorted;
+  return Array.from({ length: size }, (_, i) => sorted[Math.round((i * (sorted.length - 1)) / (size - 1))]);
+}
+
+export function buildReferenceDistributions(rows: Record<string, number>[]): Record<string, ReferenceDistribution> {
+  const names = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  const distributions: Record<string, ReferenceDistribution> = {};
+  for (const name of names) {
+    const values = rows
+      .map((row) => row[name])
+      .filter((v) => typeof v === "number" && Number.isFinite(v))
+      .sort((a, b) => a - b);
+    if (values.length > 0) {
+      distributions[name] = { count: values.length, sample: quantileSample(values, REFERENCE_SAMPLE_SIZE) };
+    }
+  }
+  return distributions;
+}
+
+// ============================================================================
+// Distribution Shift: PSI & Kolmogorov-Smirnov
+// ============================================================================
+
+export const PSI_BINS = 10;
+// Conventional PSI bands: below 0.1 stable, 0.1-0.25 moderate, above 0.25 significant.
+export const PSI_MODERATE = 0.1;
+export const PSI_SIGNIFICANT = 0.25;
+export const KS_ALPHA = 0.01;
+
+// Floor for empty bins so the log term stays finite.
+const PSI_EPSILON = 1e-4;
+
+/**
+ * Population Stability Index of `recent` against `reference`, over bins cut
+ * at the reference deciles. Tied deciles are merged, so a constant reference
+ * still gives two bins (at or below the value, and above it).
+ */
+export function populationStabilityIndex(reference: number[], recent: number[], bins: number = PSI_BINS): number {
+  if (reference.length === 0 || recent.length === 0) return 0;
+  const sorted = reference.slice().sort((a, b) => a - b);
+  const edges = Array.from(
+    new Set(Array.from({ length: bins - 1 }, (_, i) => sorted[Math.floor(((i + 1) * sorted.length) / bins)] ?? sorted[sorted.length - 1]))
+  ).sort((a, b) => a - b);
+  if (edges.length === 0) edges.push(sorted[0]);
+
+  const proportions = (values: number[]): number[] => {
+    const counts = new Array(edges.length + 1).fill(0);
+    for (const value of values) {
+      let bin = edges.findIndex((edge) => value <= edge);
+      if (bin === -1) bin = edges.length;
+      counts[bin]++;
+    }
+    return counts.map((c) => Math.max(c / values.length, PSI_EPSILON));
+  };
+
+  const expected = proportions(sorted);
+  const actual = proportions(recent);
+  return expected.reduce((sum, e, i) => sum + (actual[i] - e) * Math.log(actual[i] / e), 0);
+}
+
+export interface KsResult {
+  statistic: number;
+  pValue: number;
+}
+
+// Asymptotic Kolmogorov distribution tail, with Stephens' small-sample correction.
+function kolmogorovPValue(statistic: number, effectiveN: number): number {
+  const sqrtN = Math.sqrt(effectiveN);
+  const lambda = (sqrtN + 0.12 + 0.11 / sqrtN) * statistic;
+  if (lambda < 1e-3) return 1;
+  let sum = 0;
+  for (let k = 1; k <= 100; k++) {
+    const term = 2 * (k % 2 === 1 ? 1 : -1) * Math.exp(-2 * k * k * lambda * lambda);
+    sum += term;
+    if (Math.abs(term) < 1e-10) break;
+  }
+  return Math.min(Math.max(sum, 0), 1);
+}
+
+/** Two-sample Kolmogorov-Smirnov test: the largest gap between the two empirical CDFs. */
+export function kolmogorovSmirnov(reference: number[], recent: number[]): KsResult {
+  if (reference.length === 0 || recent.length === 0) return { statistic: 0, pValue: 1 };
+  const a = reference.slice().sort((x, y) => x - y);
+  const b = recent.slice().sort((x, y) => x - y);
+
+  let i = 0;
+  let j = 0;
+  let statistic = 0;
+  while (i < a.length && j < b.length) {
+    const value = Math.min(a[i], b[j]);
+    while (i < a.length && a[i] === value) i++;
+    while (j < b.length && b[j] === value) j++;
+    statistic = Math.max(statistic, Math.abs(i / a.length - j / b.length));
+  }
+
+  const effectiveN = (a.length * b.length) / (a.length + b.length);
+  return { statistic, pValue: kolmogorovPValue(statistic, effectiveN) };
+}
+
+export type FeatureDriftStatus = "stable" | "moderate" | "significant" | "insufficient_data";
+
+export interface FeatureDrift {
+  featureName: string;
+  status: FeatureDriftStatus;
+  psi: number | null;
+  ks: KsResult | null;
+  referenceCount: number;
+  recentCount: number;
+  referenceMean: number | null;
+  recentMean: number | null;
+}
+
+export const MIN_DRIFT_SAMPLES = 20;
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+/**
+ * Status follows the PSI band; a KS rejection at KS_ALPHA raises a stable
+ * feature to moderate, since KS also catches shape changes PSI's bins smooth over.
+ */
+export function compareFeatureDistribution(
+  featureName: string,
+  reference: ReferenceDistribution | undefined,
+  recent: number[]
+): FeatureDrift {
+  const referenceSample = reference?.sample ?? [];
+  const base = {
+    featureName,
+    referenceCount: reference?.count ?? 0,
+    recentCount: recent.length,
+    referenceMean: mean(referenceSample),
+    recentMean: mean(recent),
+  };
+  if (referenceSample.length < MIN_DRIFT_SAMPLES || recent.length < MIN_DRIFT_SAMPLES) {
+    return { ...base, status: "insufficient_data", psi: null, ks: null };
+  }
+
+  const psi = populationStabilityIndex(referenceSample, recent);
+  const ks = kolmogorovSmirnov(referenceSample, recent);
+  let status: FeatureDriftStatus = psi > PSI_SIGNIFICANT ? "significant" : psi > PSI_MODERATE ? "moderate" : "stable";
+  if (status === "stable" && ks.pValue < KS_ALPHA) status = "moderate";
+  return { ...base, status, psi, ks };
+}
+
+// ============================================================================
+// Residual Change Detection: Page-Hinkley & CUSUM
+// ============================================================================
+
+/**
+ * Residuals are actual minus predicted, in units of the model's training
+ * error spread so thresholds mean the same thing on every dataset. A positive
+ * shift means the model has started underestimating; a negative one,
+ * overestimating.
+ */
+export type ShiftDirection = "underestimation" | "overestimation";
+
+export interface ChangeDetection {
+  detected: boolean;
+  direction: ShiftDirection | null;
+  /** Index into the residual series (oldest first) where the alarm fired. */
+  alarmIndex: number | null;
+  statistic: number;
+  threshold: number;
+}
+
+export interface PageHinkleyConfig {
+  /** Tolerated drift per step, in scaled units. */
+  delta: number;
+  lambda: number;
+}
+
+export interface CusumConfig {
+  /** Allowance per step, in scaled units. */
+  k: number;
+  h: number;
+}
+
+// On 100 stationary residuals these alarm about 1-2% of the time and catch a
+// 1.5 standard deviation bias shift within roughly ten validations.
+export const DEFAULT_PAGE_HINKLEY: PageHinkleyConfig = { delta: 0.5, lambda: 8 };
+export const DEFAULT_CUSUM: CusumConfig = { k: 0.5, h: 8 };
+
+/**
+ * Two-sided Page-Hinkley test: flags a change in the mean of the series
+ * relative to its own running mean, so a constant bias doesn't alarm.
+ */
+export function pageHinkley(series: number[], config: PageHinkleyConfig = DEFAULT_PAGE_HINKLEY): ChangeDetection {
+  let runningMean = 0;
+  let up = 0;
+  let upMin = 0;
+  let down = 0;
+  let downMin = 0;
+  let statistic = 0;
+
+  for (let t = 0; t < series.length; t++) {
+    const x = series[t];
+    runningMean += (x - runningMean) / (t + 1);
+    up += x - runningMean - config.delta;
+    down += runningMean - x - config.delta;
+    upMin = Math.min(upMin, up);
+    downMin = Math.min(downMin, down);
+
+    const upStat = up - upMin;
+    const downStat = down - downMin;
+    statistic = Math.max(statistic, upStat, downStat);
+    if (upStat > config.lambda || downStat > config.lambda) {
+      return {
+        detected: true,
+        direction: upStat >= downStat ? "underestimation" : "overestimation",
+        alarmIndex: t,
+        statistic: Math.max(upStat, downStat),
+        threshold: config.lambda,
+      };
+    }
+  }
+  return { detected: false, direction: null, alarmIndex: null, statistic, threshold: config.lambda };
+}
+
+/** Two-sided tabular CUSUM against a zero-mean residual: flags sustained bias. */
+export function cusum(series: number[], config: CusumConfig = DEFAULT_CUSUM): ChangeDetection {
+  let high = 0;
+  let low = 0;
+  let statistic = 0;
+
+  for (let t = 0; t < series.length; t++) {
+    high = Math.max(0, high + series[t] - config.k);
+    low = Math.max(0, low - series[t] - config.k);
+    statistic = Math.max(statistic, high, low);
+    if (high > config.h || low > config.h) {
+      return {
+        detected: true,
+        direction: high >= low ? "underestimation" : "overestimation",
+        alarmIndex: t,
+        statistic: Math.max(high, low),
+        threshold: config.h,
+      };
+    }
+  }
+  return { detected: false, direction: null, alarmIndex: null, statistic, threshold: config.h };
+}
+
+export interface ResidualDrift {
+  checkpoint: ValidationCheckpoint;
+  sampleCount: number;
+  scale: number;
+  meanResidual: number | null;
+  pageHinkley: ChangeDetection | null;
+  cusum: ChangeDetection | null;
+  /** createdAt of the log where the earliest alarm fired. */
+  changeDetectedAt: Date | null;
+}
+
+export const MIN_RESIDUAL_SAMPLES = 10;
+
+export function detectResidualShift(
+  logs: Array<{ predictedValue: number; actualValue: number | null; createdAt: Date | null }>,
+  scale: number,
+  checkpoint: ValidationCheckpoint = FINAL_CHECKPOINT
+): ResidualDrift {
+  const validated = logs.filter((l) => l.actualValue !== null);
+  const residuals = validated.map((l) => (l.actualValue as number) - l.predictedValue);
+  const base = { checkpoint, sampleCount: residuals.length, scale, meanResidual: mean(residuals) };
+  if (residuals.length < MIN_RESIDUAL_SAMPLES) {
+    return { ...base, pageHinkley: null, cusum: null, changeDetectedAt: null };
+  }
+
+  const scaled = residuals.map((r) => r / scale);
+  const ph = pageHinkley(scaled);
+  const cs = cusum(scaled);
+  const alarms = [ph.alarmIndex, cs.alarmIndex].filter((i): i is number => i !== null);
+  const first = alarms.length > 0 ? Math.min(...alarms) : null;
+
+  return {
+    ...base,
+    pageHinkley: ph,
+    cusum: cs,
+    changeDetectedAt: first !== null ? validated[first].createdAt : null,
+  };
+}
+
+// ============================================================================
+// Dataset Drift Report
+// ============================================================================
+
+export interface DatasetDriftReport {
+  modelId: string;
+  /** "model" when the champion froze its training distributions, "reconstructed" for older models. */
+  referenceSource: "model" | "reconstructed";
+  recentWindow: number;
+  features: FeatureDrift[];
+  driftedFeatures: string[];
+  residuals: ResidualDrift;
+}
+
+export interface DatasetDriftOptions {
+  /** Most recent records (created after the model was trained) to compare. */
+  window?: number;
+  /** Validated residuals to scan. */
+  residualWindow?: number;
+  checkpoint?: ValidationCheckpoint;
+}
+
+/**
+ * Compares each raw feature of the records that arrived after the champion
+ * was trained against its training-time distribution, and scans the
+ * champion's residuals at `checkpoint` for a change in bias.
+ */
+export async function computeDatasetDrift(
+  dataset: Dataset,
+  champion: PatternModel,
+  options: DatasetDriftOptions = {}
+): Promise<DatasetDriftReport> {
+  const window = options.window ?? 200;
+  const checkpoint = options.checkpoint ?? FINAL_CHECKPOINT;
+
+  // Every active record is extracted so history features see the same past
+  // they did at training time.
+  const records = await db
+    .select()
+    .from(datasetRecords)
+    .where(and(eq(datasetRecords.datasetId, dataset.id), eq(datasetRecords.isActive, true)));
+  const extracted = extractFeaturesForRecords(
+    dataset.datasetType,
+    records.map((r) => ({ rawData: r.rawFeatures ?? {}, targetValue: r.targetValue, createdAt: r.createdAt }))
+  );
+  const rows = records
+    .map((record, i) => ({ createdAt: record.createdAt, features: extracted[i]?.features }))
+    .filter((row): row is { createdAt: Date | null; features: Record<string, number> } => !!row.features);
+
+  const trainedAt = champion.trainedAt ?? champion.createdAt;
+  const afterTraining = (row: { createdAt: Date | null }) => !!trainedAt && !!row.createdAt && row.createdAt > trainedAt;
+  const recentRows = rows
+    .filter(afterTraining)
+    .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+    .slice(0, window);
+
+  const frozen = champion.featureDistributions as Record<string, ReferenceDistribution> | null;
+  const reference = frozen ?? buildReferenceDistributions(rows.filter((row) => !afterTraining(row)).map((row) => row.features));
+
+  const names = Array.from(new Set([...Object.keys(reference), ...recentRows.flatMap((row) => Object.keys(row.features))])).sort();
+  const features = names.map((name) =>
+    compareFeatureDistribution(
+      name,
+      reference[name],
+      recentRows.map((row) => row.features[name]).filter((v) => typeof v === "number" && Number.isFinite(v))
+    )
+  );
+
+  const logs = await db
+    .select()
+    .from(predictionLogs)
+    .where(
+      and(
+        eq(predictionLogs.datasetId, dataset.id),
+        eq(predictionLogs.modelId, champion.id),
+        isNotNull(predictionLogs.actualValue),
+        checkpointCondition(checkpoint)
+      )
+    )
+    .orderBy(desc(predictionLogs.createdAt))
+    .limit(options.residualWindow ?? 200);
+  logs.sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+
+  const residualStd = Math.sqrt(
+    logs.reduce((sum, l) => sum + ((l.actualValue ?? 0) - l.predictedValue) ** 2, 0) / Math.max(logs.length, 1)
+  );
+  // Training MAE converted to a standard deviation (normal errors); the
+  // observed spread stands in for models trained without one.
+  const scale = champion.mae && champion.mae > 0 ? champion.mae * Math.sqrt(Math.PI / 2) : residualStd > 0 ? residualStd : 1;
+
+  return {
+    modelId: champion.id,
+    referenceSource: frozen ? "model" : "reconstructed",
+    recentWindow: window,
+    features,
+    driftedFeatures: features.filter((f) => f.status === "moderate" || f.status === "significant").map((f) => f.featureName),
+    residuals: detectResidualShift(logs, scale, checkpoint),
+  };
+}
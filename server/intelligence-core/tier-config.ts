@@ -0,0 +1,82 @@
+import { db } from "../db";
+import { datasets, datasetRecords, patternModels, type Dataset } from "@shared/schema";
+import { eq, and } from "drizzle-orm";
+import { classifyTier, loadTierThresholds, resolveTierThresholds, DEFAULT_TIER_THRESHOLDS, type TierConfig, type TierThresholds } from "./model-training";
+
+// ============================================================================
+// Per-Dataset Tier Boundaries
+// ============================================================================
+
+type TierDataset = Pick<Dataset, "id" | "tierConfig">;
+
+async function loadActiveTargets(datasetId: string): Promise<Array<{ id: string; targetValue: number | null; tierClassification: string | null }>> {
+  return db
+    .select({ id: datasetRecords.id, targetValue: datasetRecords.targetValue, tierClassification: datasetRecords.tierClassification })
+    .from(datasetRecords)
+    .where(and(eq(datasetRecords.datasetId, datasetId), eq(datasetRecords.isActive, true)));
+}
+
+/**
+ * Resolves the dataset's tier config against its active targets. Pass targets
+ * that are about to be inserted so quantile tiers already account for them.
+ */
+export async function resolveDatasetTierThresholds(dataset: TierDataset, additionalTargets: number[] = []): Promise<TierThresholds> {
+  const config = dataset.tierConfig as TierConfig | null;
+  if (!config || config.mode === "fixed") {
+    return resolveTierThresholds(config, []);
+  }
+
+  const records = await loadActiveTargets(dataset.id);
+  const targets = records
+    .map((r) => r.targetValue)
+    .filter((v): v is number => v !== null)
+    .concat(additionalTargets);
+  return resolveTierThresholds(config, targets);
+}
+
+/**
+ * Rewrites tierClassification on active records whose tier changed. Quantile
+ * boundaries move as records arrive, so ingestion calls this after inserting.
+ */
+export async function reclassifyDatasetRecords(dataset: TierDataset): Promise<{ thresholds: TierThresholds; updated: number }> {
+  const thresholds = await resolveDatasetTierThresholds(dataset);
+  const records = await loadActiveTargets(dataset.id);
+
+  let updated = 0;
+  for (const record of records) {
+    if (record.targetValue === null) continue;
+    const tier = classifyTier(record.targetValue, thresholds);
+    if (tier === record.tierClassification) continue;
+    await db.update(datasetRecords).set({ tierClassification: tier }).where(eq(datasetRecords.id, record.id));
+    updated++;
+  }
+
+  return { thresholds, updated };
+}
+
+export async function updateDatasetTierConfig(
+  datasetId: string,
+  tierConfig: TierConfig | null
+): Promise<{ dataset: Dataset; thresholds: TierThresholds; updated: number } | null> {
+  const [dataset] = await db
+    .update(datasets)
+    .set({ tierConfig, updatedAt: new Date() })
+    .where(eq(datasets.id, datasetId))
+    .returning();
+
+  if (!dataset) return null;
+
+  const { thresholds, updated } = await reclassifyDatasetRecords(dataset);
+  return { dataset, thresholds, updated };
+}
+
+/** Thresholds frozen on the model that produced a prediction. */
+export async function getModelTierThresholds(modelId: string | null): Promise<TierThresholds> {
+  if (!modelId) return DEFAULT_TIER_THRESHOLDS;
+  const [model] = await db
+    .select({ tierThresholds: patternModels.tierThresholds })
+    .from(patternModels)
+    .where(eq(patternModels.id, modelId))
+    .limit(1);
+  return loadTierThresholds(model?.tierThresholds);
+}
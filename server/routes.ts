@@ -7,10 +7,11 @@ import crypto from "crypto";
 import fs from "fs";
 import path from "path";
 import OpenAI from "openai";
-import type { User } from "@shared/schema";
-import { patternModels, humorBenchmarks } from "@shared/schema";
+import type { User, AdScript } from "@shared/schema";
+import { humorBenchmarks } from "@shared/schema";
 import { db } from "./db";
 import { eq, desc, isNull, or } from "drizzle-orm";
+import type { ConstrainedOptimizationResult } from "./intelligence-core/optimization";
 
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY || "placeholder" });
 
@@ -221,11 +222,47 @@ function registerAuthRoutes(app: Express) {
   });
 }
 
+/** Asks the model to revise a script's scenes until they hit the planned feature targets. */
+async function rewriteScriptTowards(
+  script: Pick<AdScript, "title" | "scenes" | "brandClose" | "totalDuration">,
+  plan: Pick<ConstrainedOptimizationResult, "changes">
+): Promise<Pick<AdScript, "title" | "scenes" | "brandClose" | "totalDuration">> {
+  const { buildRewritePrompt } = await import("./intelligence-core/script-rewrite");
+  const completion = await openai.chat.completions.create({
+    model: "gpt-4o",
+    messages: [
+      {
+        role: "system",
+        content: `You are a comedy ad script editor who revises pacing and length to hit measured targets. The locked CTA is: "${LOCKED_CTA}". Return valid JSON only.`,
+      },
+      { role: "user", content: buildRewritePrompt(script, plan) },
+    ],
+    response_format: { type: "json_object" },
+  });
+
+  const content = completion.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error("AI failed to rewrite script");
+  }
+  const rewrite = JSON.parse(content);
+  return {
+    title: rewrite.title || script.title,
+    scenes: rewrite.scenes || script.scenes,
+    brandClose: rewrite.brandClose || script.brandClose,
+    totalDuration: rewrite.totalDuration || script.totalDuration,
+  };
+}
+
 function registerAdEngineRoutes(app: Express) {
   app.get("/api/ad-engine/scenarios", requireAdmin, async (req: Request, res: Response) => {
     try {
-      const shuffled = [...HUMOR_CATEGORIES].sort(() => Math.random() - 0.5);
-      const selected = shuffled.slice(0, 6);
+      const { createSeededRandom, parseSeed } = await import("./intelligence-core/random");
+      const seed = parseSeed(req.query.seed);
+      if (typeof seed === "string") {
+        return res.status(400).json({ error: seed });
+      }
+      const rng = createSeededRandom(seed);
+      const selected = rng.shuffle(HUMOR_CATEGORIES).slice(0, 6);
 
       try {
         const completion = await openai.chat.completions.create({
@@ -247,7 +284,7 @@ function registerAdEngineRoutes(app: Express) {
         if (content) {
           const parsed = JSON.parse(content);
           const scenarios = parsed.scenarios || parsed;
-          return res.json({ scenarios: Array.isArray(scenarios) ? scenarios : [scenarios] });
+          return res.json({ scenarios: Array.isArray(scenarios) ? scenarios : [scenarios], seed: rng.seed });
         }
       } catch {
         // fallback below
@@ -262,7 +299,7 @@ function registerAdEngineRoutes(app: Express) {
         arc: "setup → escalation → punchline → CTA",
         suggestedCharacters: ["Protagonist", "Side Character"],
       }));
-      res.json({ scenarios: fallbackScenarios });
+      res.json({ scenarios: fallbackScenarios, seed: rng.seed });
     } catch (error: any) {
       res.status(500).json({ error: "Failed to generate scenarios", details: error.message });
     }
@@ -270,8 +307,13 @@ function registerAdEngineRoutes(app: Express) {
 
   app.get("/api/ad-engine/comparison-scenarios", requireAdmin, async (req: Request, res: Response) => {
     try {
-      const shuffled = [...COMPARISON_IRRITANTS].sort(() => Math.random() - 0.5);
-      const selected = shuffled.slice(0, 6);
+      const { createSeededRandom, parseSeed } = await import("./intelligence-core/random");
+      const seed = parseSeed(req.query.seed);
+      if (typeof seed === "string") {
+        return res.status(400).json({ error: seed });
+      }
+      const rng = createSeededRandom(seed);
+      const selected = rng.shuffle(COMPARISON_IRRITANTS).slice(0, 6);
       const scenarios = selected.map((irritant, i) => ({
         id: `comparison_${irritant.id}_${Date.now()}_${i}`,
         title: irritant.name,
@@ -282,7 +324,7 @@ function registerAdEngineRoutes(app: Express) {
         arc: "irritant → comparison → resolution → CTA",
         suggestedCharacters: ["Frustrated Consumer", "Satisfied Customer"],
       }));
-      res.json({ scenarios });
+      res.json({ scenarios, seed: rng.seed });
     } catch (error: any) {
       res.status(500).json({ error: "Failed to generate comparison scenarios", details: error.message });
     }
@@ -290,10 +332,13 @@ function registerAdEngineRoutes(app: Express) {
 
   app.post("/api/ad-engine/scripts/generate", requireAdmin, async (req: Request, res: Response) => {
     try {
-      const { scenarioId, format } = req.body;
+      const { scenarioId, format, explore = false } = req.body;
       if (!scenarioId) {
         return res.status(400).json({ error: "scenarioId is required" });
       }
+      if (typeof explore !== "boolean") {
+        return res.status(400).json({ error: "explore must be a boolean" });
+      }
 
       const category = HUMOR_CATEGORIES.find((c) => scenarioId.includes(c.id));
       const categoryName = category?.name || "Comedy";
@@ -333,58 +378,120 @@ function registerAdEngineRoutes(app: Express) {
         status: "draft",
       });
 
-      let predictionSnapshot: { id: string; predictedValue: number; predictedTier: string; confidence: number } | null = null;
+      let predictionSnapshot: {
+        id: string;
+        predictedValue: number;
+        predictedTier: string;
+        confidence: number;
+        lower: number | null;
+        upper: number | null;
+      } | null = null;
+      let exploration: {
+        experimentId: string;
+        groupType: string;
+        arm: string;
+        seed: number;
+        mutationParameters: Record<string, number> | null;
+        applied: boolean;
+      } | null = null;
+      let script = adScript;
 
       try {
-        const { getDatasetType, extractFeaturesForRecord } = await import("./intelligence-core/feature-engineering");
-        const { predict, classifyTier } = await import("./intelligence-core/model-training");
+        const { loadScoringModel } = await import("./intelligence-core/model-training");
         const { createPredictionSnapshot } = await import("./intelligence-core/prediction");
-        const { decideExplorationStrategy } = await import("./intelligence-core/exploration");
-
-        const [latestModel] = await db
-          .select()
-          .from(patternModels)
-          .where(eq(patternModels.status, "active"))
-          .orderBy(desc(patternModels.createdAt))
-          .limit(1);
-
-        if (latestModel) {
-          const coefficients = (latestModel.coefficients as number[]) || [];
-          const intercept = latestModel.intercept ?? 0;
-          const featureNames = (latestModel.featureNames as string[]) || [];
-
-          const extractor = getDatasetType("video_ads");
-          if (extractor) {
-            const rawFeatures = extractor.featureExtractor(scriptData);
-            const featureVector = featureNames.map(name => rawFeatures[name] ?? 0);
-            const predictedValue = predict(coefficients, intercept, featureVector);
-            const predictedTier = classifyTier(predictedValue);
-
-            const snapshot = await createPredictionSnapshot(
-              latestModel.datasetId,
-              latestModel.id,
-              featureVector,
-              coefficients,
-              predictedValue,
-              predictedTier,
-              latestModel.rSquared ?? 0
-            );
+        const { decideExploration, saveExplorationDecision } = await import("./intelligence-core/experiments");
+        const { scoreScript, explorationRewriteTarget, getScriptMutationBounds } = await import(
+          "./intelligence-core/script-rewrite"
+        );
 
-            predictionSnapshot = {
-              id: snapshot.id,
+        const { getChampionForDatasetType } = await import("./intelligence-core/model-registry");
+
+        const latestModel = await getChampionForDatasetType("video_ads");
+
+        if (latestModel?.featureStats) {
+          // Scored from the saved script through the same mapping rewrites use,
+          // so the extractor sees the raw record shape it was trained on.
+          const generated = await scoreScript(latestModel, adScript);
+
+          // With `explore` set the script is an experiment pull. The arm is
+          // drawn before the snapshot is scored, and a mutation arm is applied
+          // by rewriting the script towards the mutated value, so the snapshot
+          // describes the script that ships. One seed covers both.
+          const { generateSeed } = await import("./intelligence-core/random");
+          const seed = generateSeed();
+          const pending = explore
+            ? await decideExploration(latestModel.datasetId, generated.scored.normalizedFeatures, {
+                strategy: "thompson",
+                config: { mutationBounds: getScriptMutationBounds() },
+                seed,
+              })
+            : null;
+
+          let applied = pending?.decision.groupType === "exploitation";
+          let final = generated;
+          const target = pending && explorationRewriteTarget(latestModel, generated.rawFeatures, pending.decision);
+          if (target) {
+            try {
+              const rewritten = await rewriteScriptTowards(adScript, { changes: [target] });
+              script = (await storage.updateAdScript(adScript.id, rewritten)) ?? adScript;
+              final = await scoreScript(latestModel, script);
+              applied = true;
+            } catch (rewriteError) {
+              console.log("[Intelligence Core] Exploration rewrite failed:", (rewriteError as Error).message);
+            }
+          }
+
+          const { rawFeatures, categories, scored } = final;
+          const { featureVector, predictedValue, predictedTier, confidence, interval } = scored;
+          const snapshot = await createPredictionSnapshot(
+            latestModel.datasetId,
+            latestModel.id,
+            featureVector,
+            loadScoringModel(latestModel).parameters,
+            predictedValue,
+            predictedTier,
+            confidence,
+            script.id,
+            "ad_script",
+            { rawFeatures, categories, interval, seed }
+          );
+
+          // Validating the snapshot credits its outcome to the chosen arm. A
+          // mutation that couldn't be applied is stored unlinked: the script
+          // shipped unchanged, so its outcome says nothing about that arm.
+          if (pending) {
+            const experiment = await saveExplorationDecision(latestModel.datasetId, pending, {
+              sourceId: script.id,
+              sourceType: "ad_script",
+              snapshotId: applied ? snapshot.id : undefined,
               predictedValue,
-              predictedTier,
-              confidence: latestModel.rSquared ?? 0,
+            });
+            exploration = {
+              experimentId: experiment.id,
+              groupType: pending.decision.groupType,
+              arm: pending.decision.arm,
+              seed: pending.decision.seed,
+              mutationParameters: pending.decision.mutationParameters ?? null,
+              applied,
             };
-
-            console.log("[Intelligence Core] Prediction snapshot created:", predictionSnapshot);
           }
+
+          predictionSnapshot = {
+            id: snapshot.id,
+            predictedValue,
+            predictedTier,
+            confidence,
+            lower: interval?.lower ?? null,
+            upper: interval?.upper ?? null,
+          };
+
+          console.log("[Intelligence Core] Prediction snapshot created:", predictionSnapshot);
         }
       } catch (predError) {
         console.log("[Intelligence Core] Prediction skipped:", (predError as Error).message);
       }
 
-      res.status(201).json({ script: adScript, predictionSnapshot });
+      res.status(201).json({ script, predictionSnapshot, exploration });
     } catch (error: any) {
       res.status(500).json({ error: "Failed to generate script", details: error.message });
     }
@@ -486,6 +593,63 @@ function registerAdEngineRoutes(app: Express) {
     }
   });
 
+  // Plans feature targets with the champion model, asks GPT-4o to rewrite the
+  // scenes toward them, then re-scores the rewrite. Saved only with apply: true.
+  app.post("/api/ad-engine/scripts/:scriptId/optimize-rewrite", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const scriptId = req.params.scriptId as string;
+      const script = await storage.getAdScript(scriptId);
+      if (!script) {
+        return res.status(404).json({ error: "Script not found" });
+      }
+      const platform = typeof req.body?.platform === "string" ? req.body.platform : undefined;
+
+      const { getChampionForDatasetType } = await import("./intelligence-core/model-registry");
+      const { parseConstrainedOptimizationRequest } = await import("./intelligence-core/optimization");
+      const { scoreScript, planScriptTargets } = await import("./intelligence-core/script-rewrite");
+
+      const request = parseConstrainedOptimizationRequest(req.body);
+      if (typeof request === "string") {
+        return res.status(400).json({ error: request });
+      }
+
+      const champion = await getChampionForDatasetType("video_ads");
+      if (!champion) {
+        return res.status(404).json({ error: "No champion model found for video ads" });
+      }
+      if (!champion.featureStats) {
+        return res.status(409).json({ error: "Model has no stored feature statistics. Retrain the dataset before optimizing." });
+      }
+
+      const original = await scoreScript(champion, script, platform);
+      const plan = planScriptTargets(champion, original.rawFeatures, original.categories, request);
+      if (plan.changes.length === 0) {
+        return res.json({ script, plan, original: original.scored, rewritten: null, applied: false });
+      }
+
+      const rewrittenScript = await rewriteScriptTowards(script, plan);
+      const rewritten = await scoreScript(champion, { ...rewrittenScript, humorCategory: script.humorCategory }, platform);
+
+      const applied = req.body?.apply === true;
+      const savedScript = applied ? await storage.updateAdScript(scriptId, rewrittenScript) : script;
+
+      res.json({
+        script: savedScript,
+        plan,
+        original: original.scored,
+        rewritten: {
+          ...rewrittenScript,
+          rawFeatures: rewritten.rawFeatures,
+          prediction: rewritten.scored,
+          predictedLift: rewritten.scored.predictedValue - original.scored.predictedValue,
+        },
+        applied,
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to rewrite script", details: error.message });
+    }
+  });
+
   app.post("/api/ad-engine/scripts/:scriptId/voiceover", requireAdmin, async (req: Request, res: Response) => {
     try {
       const { scriptId } = req.params;
@@ -757,12 +921,59 @@ function registerHumorScreenerRoutes(app: Express) {
         ...data,
         engagementRate,
       });
+
+      try {
+        const { syncHumorPerformance } = await import("./intelligence-core/humor-sync");
+        const sync = await syncHumorPerformance(record);
+        console.log("[Intelligence Core] Performance synced to dataset:", sync);
+      } catch (syncError) {
+        console.log("[Intelligence Core] Performance sync skipped:", (syncError as Error).message);
+      }
+
       res.status(201).json({ performance: record });
     } catch (error: any) {
       res.status(500).json({ error: "Failed to record performance", details: error.message });
     }
   });
 
+  app.put("/api/humor-screener/performance/:id", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        return res.status(400).json({ error: "Performance id must be an integer" });
+      }
+      const existing = await storage.getPerformance(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Performance record not found" });
+      }
+
+      const data = { ...existing, ...req.body };
+      const views = data.views || 0;
+      const likes = data.likes || 0;
+      const comments = data.comments || 0;
+      const shares = data.shares || 0;
+      const engagementRate = views > 0 ? ((likes + comments + shares) / views) * 100 : 0;
+
+      const { id: _id, createdAt: _createdAt, ...updates } = req.body;
+      const record = await storage.updatePerformance(id, { ...updates, engagementRate, updatedAt: new Date() });
+      if (!record) {
+        return res.status(404).json({ error: "Performance record not found" });
+      }
+
+      try {
+        const { syncHumorPerformance } = await import("./intelligence-core/humor-sync");
+        const sync = await syncHumorPerformance(record);
+        console.log("[Intelligence Core] Performance synced to dataset:", sync);
+      } catch (syncError) {
+        console.log("[Intelligence Core] Performance sync skipped:", (syncError as Error).message);
+      }
+
+      res.json({ performance: record });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to update performance", details: error.message });
+    }
+  });
+
   app.get("/api/humor-screener/performance", requireAdmin, async (req: Request, res: Response) => {
     try {
       const { category, platform, sort } = req.query;
@@ -1711,6 +1922,50 @@ function registerContentStrategyRoutes(app: Express) {
   });
 }
 
+function registerAlertRoutes(app: Express) {
+  app.get("/api/alerts", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { type, severity, datasetId, acknowledged } = req.query;
+      const { isAlertType, isAlertSeverity, ALERT_TYPES, ALERT_SEVERITIES } = await import("./intelligence-core/alerts");
+      if (type !== undefined && !isAlertType(type)) {
+        return res.status(400).json({ error: "Invalid type", allowed: ALERT_TYPES });
+      }
+      if (severity !== undefined && !isAlertSeverity(severity)) {
+        return res.status(400).json({ error: "Invalid severity", allowed: ALERT_SEVERITIES });
+      }
+      if (acknowledged !== undefined && acknowledged !== "true" && acknowledged !== "false") {
+        return res.status(400).json({ error: "acknowledged must be true or false" });
+      }
+      const alerts = await storage.getAlerts({
+        alertType: type,
+        severity,
+        datasetId: datasetId as string,
+        acknowledged: acknowledged === undefined ? undefined : acknowledged === "true",
+        limit: Math.min(parseInt(req.query.limit as string) || 100, 500),
+      });
+      res.json({ alerts });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to list alerts", details: error.message });
+    }
+  });
+
+  app.put("/api/alerts/:id/acknowledge", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const alert = await storage.getAlert(req.params.id as string);
+      if (!alert) {
+        return res.status(404).json({ error: "Alert not found" });
+      }
+      if (alert.acknowledged) {
+        return res.json({ alert });
+      }
+      const updated = await storage.acknowledgeAlert(alert.id, req.user!.id);
+      res.json({ alert: updated });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to acknowledge alert", details: error.message });
+    }
+  });
+}
+
 let youtubeQuotaUsed = 0;
 let lastYouTubeScanAt: Date | null = null;
 
@@ -1952,6 +2207,7 @@ Sitemap: ${baseUrl}/sitemap.xml`);
   registerEnvironmentRoutes(app);
   registerKnowledgeRoutes(app);
   registerContentStrategyRoutes(app);
+  registerAlertRoutes(app);
   registerYouTubeResearchRoutes(app);
 
   const { registerIntelligenceRoutes } = await import("./intelligence-core/routes");
@@ -1,5 +1,5 @@
 import { db } from "./db";
-import { eq, desc, and, ilike, sql, asc } from "drizzle-orm";
+import { eq, desc, and, ilike, sql, asc, isNull, inArray } from "drizzle-orm";
 import {
   users, type User, type InsertUser,
   adScripts, type AdScript, type InsertAdScript,
@@ -37,6 +37,8 @@ export interface IStorage {
   deleteCampaign(id: string): Promise<void>;
 
   createPerformance(data: InsertHumorPerformance): Promise<HumorPerformance>;
+  getPerformance(id: number): Promise<HumorPerformance | undefined>;
+  updatePerformance(id: number, data: Partial<HumorPerformance>): Promise<HumorPerformance | undefined>;
   getPerformanceRecords(filters?: { category?: string; platform?: string; sort?: string }): Promise<HumorPerformance[]>;
   getTopPerformers(limit?: number): Promise<HumorPerformance[]>;
 
@@ -77,8 +79,10 @@ export interface IStorage {
   getAudienceInsights(environmentId: string): Promise<AudienceInsight[]>;
 
   createAlert(data: InsertPerformanceAlert): Promise<PerformanceAlert>;
-  getAlerts(): Promise<PerformanceAlert[]>;
-  acknowledgeAlert(id: string, userId: string): Promise<void>;
+  getAlerts(filters?: { alertType?: string; severity?: string; datasetId?: string; acknowledged?: boolean; limit?: number }): Promise<PerformanceAlert[]>;
+  getAlert(id: string): Promise<PerformanceAlert | undefined>;
+  acknowledgeAlert(id: string, userId: string): Promise<PerformanceAlert | undefined>;
+  resolveAlerts(dedupeKeys: string[]): Promise<PerformanceAlert[]>;
 
   addToQueue(data: InsertVideoQueue): Promise<VideoQueue>;
   getQueuePosition(id: string): Promise<VideoQueue | undefined>;
@@ -165,6 +169,16 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async getPerformance(id: number): Promise<HumorPerformance | undefined> {
+    const result = await db.select().from(humorPerformance).where(eq(humorPerformance.id, id));
+    return result[0];
+  }
+
+  async updatePerformance(id: number, data: Partial<HumorPerformance>): Promise<HumorPerformance | undefined> {
+    const result = await db.update(humorPerformance).set(data).where(eq(humorPerformance.id, id)).returning();
+    return result[0];
+  }
+
   async getPerformanceRecords(filters?: { category?: string; platform?: string; sort?: string }): Promise<HumorPerformance[]> {
     const conditions: any[] = [];
     if (filters?.category) conditions.push(eq(humorPerformance.humorCategory, filters.category));
@@ -347,17 +361,84 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(audienceInsights).where(eq(audienceInsights.environmentId, environmentId)).orderBy(desc(audienceInsights.createdAt));
   }
 
+  // An unresolved alert with the same dedupeKey, acknowledged or not, is
+  // refreshed in place instead of duplicated; only after it is resolved does a
+  // recurrence open a new one.
   async createAlert(data: InsertPerformanceAlert): Promise<PerformanceAlert> {
-    const result = await db.insert(performanceAlerts).values(data).returning();
+    if (!data.dedupeKey) {
+      const result = await db.insert(performanceAlerts).values(data).returning();
+      return result[0];
+    }
+    const dedupeKey = data.dedupeKey;
+
+    // An alert stays open until its condition clears (resolveAlerts), even
+    // once acknowledged: recurrences refresh it in place instead of reopening
+    // the inbox for something already seen.
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${dedupeKey}))`);
+      const [open] = await tx
+        .select()
+        .from(performanceAlerts)
+        .where(and(eq(performanceAlerts.dedupeKey, dedupeKey), isNull(performanceAlerts.resolvedAt)))
+        .orderBy(desc(performanceAlerts.createdAt))
+        .limit(1);
+
+      if (open) {
+        const result = await tx
+          .update(performanceAlerts)
+          .set({
+            severity: data.severity,
+            message: data.message,
+            metadata: data.metadata,
+            occurrences: sql`coalesce(${performanceAlerts.occurrences}, 1) + 1`,
+            lastSeenAt: new Date(),
+          })
+          .where(eq(performanceAlerts.id, open.id))
+          .returning();
+        return result[0];
+      }
+
+      const result = await tx.insert(performanceAlerts).values(data).returning();
+      return result[0];
+    });
+  }
+
+  async getAlerts(filters?: { alertType?: string; severity?: string; datasetId?: string; acknowledged?: boolean; limit?: number }): Promise<PerformanceAlert[]> {
+    const conditions: any[] = [];
+    if (filters?.alertType) conditions.push(eq(performanceAlerts.alertType, filters.alertType));
+    if (filters?.severity) conditions.push(eq(performanceAlerts.severity, filters.severity));
+    if (filters?.datasetId) conditions.push(eq(performanceAlerts.datasetId, filters.datasetId));
+    if (filters?.acknowledged !== undefined) conditions.push(eq(performanceAlerts.acknowledged, filters.acknowledged));
+
+    const query = db.select().from(performanceAlerts);
+    if (conditions.length > 0) query.where(and(...conditions));
+
+    return query
+      .orderBy(desc(performanceAlerts.lastSeenAt), desc(performanceAlerts.createdAt))
+      .limit(filters?.limit ?? 100);
+  }
+
+  async getAlert(id: string): Promise<PerformanceAlert | undefined> {
+    const result = await db.select().from(performanceAlerts).where(eq(performanceAlerts.id, id));
     return result[0];
   }
 
-  async getAlerts(): Promise<PerformanceAlert[]> {
-    return db.select().from(performanceAlerts).orderBy(desc(performanceAlerts.createdAt));
+  async acknowledgeAlert(id: string, userId: string): Promise<PerformanceAlert | undefined> {
+    const result = await db
+      .update(performanceAlerts)
+      .set({ acknowledged: true, acknowledgedBy: userId, acknowledgedAt: new Date() })
+      .where(eq(performanceAlerts.id, id))
+      .returning();
+    return result[0];
   }
 
-  async acknowledgeAlert(id: string, userId: string): Promise<void> {
-    await db.update(performanceAlerts).set({ acknowledged: true, acknowledgedBy: userId }).where(eq(performanceAlerts.id, id));
+  async resolveAlerts(dedupeKeys: string[]): Promise<PerformanceAlert[]> {
+    if (dedupeKeys.length === 0) return [];
+    return db
+      .update(performanceAlerts)
+      .set({ resolvedAt: new Date() })
+      .where(and(inArray(performanceAlerts.dedupeKey, dedupeKeys), isNull(performanceAlerts.resolvedAt)))
+      .returning();
   }
 
   async addToQueue(data: InsertVideoQueue): Promise<VideoQueue> {
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, serial, real, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, serial, real, boolean, timestamp, jsonb, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -220,8 +220,14 @@ export const performanceAlerts = pgTable("performance_alerts", {
   severity: text("severity").default("warning"),
   message: text("message").notNull(),
   metadata: jsonb("metadata"),
+  datasetId: text("dataset_id"),
+  dedupeKey: text("dedupe_key"),
+  occurrences: integer("occurrences").default(1),
+  lastSeenAt: timestamp("last_seen_at").default(sql`now()`),
   acknowledged: boolean("acknowledged").default(false),
   acknowledgedBy: text("acknowledged_by"),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  resolvedAt: timestamp("resolved_at"),
   createdAt: timestamp("created_at").default(sql`now()`),
 });
 
@@ -509,6 +515,7 @@ export const datasets = pgTable("datasets", {
   description: text("description"),
   featureExtractorId: text("feature_extractor_id"),
   targetMetricName: text("target_metric_name"),
+  tierConfig: jsonb("tier_config"),
   recordCount: integer("record_count").default(0),
   lastTrainedAt: timestamp("last_trained_at"),
   isActive: boolean("is_active").default(true),
@@ -532,11 +539,15 @@ export const datasetRecords = pgTable("dataset_records", {
   rawFeatures: jsonb("raw_features"),
   normalizedFeatures: jsonb("normalized_features"),
   targetValue: real("target_value"),
+  checkpointTargets: jsonb("checkpoint_targets"),
   tierClassification: text("tier_classification"),
   splitGroup: text("split_group"),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").default(sql`now()`),
-});
+}, (table) => [
+  // One record per upstream row; rows without a sourceId (NULL) never collide.
+  uniqueIndex("dataset_records_source_idx").on(table.datasetId, table.sourceType, table.sourceId),
+]);
 
 export const insertDatasetRecordSchema = createInsertSchema(datasetRecords).omit({ id: true, createdAt: true });
 export type InsertDatasetRecord = z.infer<typeof insertDatasetRecordSchema>;
@@ -553,6 +564,7 @@ export const engineeredFeatures = pgTable("engineered_features", {
   featureType: text("feature_type").notNull(),
   extractionMethod: text("extraction_method"),
   normalizationMethod: text("normalization_method").default("min_max"),
+  encodingMethod: text("encoding_method"),
   minValue: real("min_value"),
   maxValue: real("max_value"),
   meanValue: real("mean_value"),
@@ -578,6 +590,14 @@ export const patternModels = pgTable("pattern_models", {
   coefficients: jsonb("coefficients").notNull(),
   intercept: real("intercept"),
   featureNames: jsonb("feature_names"),
+  featureStats: jsonb("feature_stats"),
+  hyperparameters: jsonb("hyperparameters"),
+  modelArtifact: jsonb("model_artifact"),
+  uncertaintyArtifact: jsonb("uncertainty_artifact"),
+  featureDistributions: jsonb("feature_distributions"),
+  tierThresholds: jsonb("tier_thresholds"),
+  categoricalEncoders: jsonb("categorical_encoders"),
+  targetHorizon: text("target_horizon").default("7d"),
   rSquared: real("r_squared"),
   mae: real("mae"),
   tierAccuracy: real("tier_accuracy"),
@@ -586,7 +606,8 @@ export const patternModels = pgTable("pattern_models", {
   testSampleCount: integer("test_sample_count"),
   trainingMetrics: jsonb("training_metrics"),
   version: integer("version").default(1),
-  status: text("status").default("active"),
+  status: text("status").default("candidate"),
+  promotedAt: timestamp("promoted_at"),
   trainedAt: timestamp("trained_at").default(sql`now()`),
   createdAt: timestamp("created_at").default(sql`now()`),
 });
@@ -604,6 +625,7 @@ export const predictionLogs = pgTable("prediction_logs", {
   snapshotId: text("snapshot_id"),
   datasetId: text("dataset_id").notNull(),
   modelId: text("model_id").notNull(),
+  checkpoint: text("checkpoint").default("7d"),
   predictedValue: real("predicted_value").notNull(),
   predictedTier: text("predicted_tier"),
   actualValue: real("actual_value"),
@@ -620,6 +642,51 @@ export const insertPredictionLogSchema = createInsertSchema(predictionLogs).omit
 export type InsertPredictionLog = z.infer<typeof insertPredictionLogSchema>;
 export type PredictionLog = typeof predictionLogs.$inferSelect;
 
+// ============================================================================
+// Validation Amendments - Explicit corrections to a validated prediction
+// ============================================================================
+
+export const validationAmendments = pgTable("validation_amendments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  snapshotId: text("snapshot_id").notNull(),
+  predictionLogId: text("prediction_log_id").notNull(),
+  previousActualValue: real("previous_actual_value"),
+  actualValue: real("actual_value").notNull(),
+  reason: text("reason").notNull(),
+  amendedBy: text("amended_by"),
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+export const insertValidationAmendmentSchema = createInsertSchema(validationAmendments).omit({ id: true, createdAt: true });
+export type InsertValidationAmendment = z.infer<typeof insertValidationAmendmentSchema>;
+export type ValidationAmendment = typeof validationAmendments.$inferSelect;
+
+// ============================================================================
+// Shadow Predictions - Challenger model scores recorded alongside snapshots
+// ============================================================================
+
+export const shadowPredictions = pgTable("shadow_predictions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  snapshotId: text("snapshot_id").notNull(),
+  datasetId: text("dataset_id").notNull(),
+  modelId: text("model_id").notNull(),
+  championModelId: text("champion_model_id"),
+  predictedValue: real("predicted_value").notNull(),
+  predictedTier: text("predicted_tier"),
+  actualValue: real("actual_value"),
+  actualTier: text("actual_tier"),
+  error: real("error"),
+  absoluteError: real("absolute_error"),
+  directionallyCorrect: boolean("directionally_correct"),
+  tierCorrect: boolean("tier_correct"),
+  validatedAt: timestamp("validated_at"),
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+export const insertShadowPredictionSchema = createInsertSchema(shadowPredictions).omit({ id: true, createdAt: true });
+export type InsertShadowPrediction = z.infer<typeof insertShadowPredictionSchema>;
+export type ShadowPrediction = typeof shadowPredictions.$inferSelect;
+
 // ============================================================================
 // Trend Signals - Trend tracking data points
 // ============================================================================
@@ -657,10 +724,21 @@ export const modelSnapshots = pgTable("model_snapshots", {
   predictedValue: real("predicted_value").notNull(),
   predictedTier: text("predicted_tier"),
   confidence: real("confidence"),
+  predictionLower: real("prediction_lower"),
+  predictionUpper: real("prediction_upper"),
+  intervalLevel: real("interval_level"),
+  tierProbabilities: jsonb("tier_probabilities"),
+  seed: bigint("seed", { mode: "number" }),
   hashSignature: text("hash_signature").notNull(),
+  hashPayload: text("hash_payload"),
+  previousHash: text("previous_hash"),
+  chainIndex: integer("chain_index"),
   uploadConfirmed: boolean("upload_confirmed").default(false),
   uploadConfirmedAt: timestamp("upload_confirmed_at"),
   performanceTrackingStarted: boolean("performance_tracking_started").default(false),
+  trackingStartedAt: timestamp("tracking_started_at"),
+  lifecycleState: text("lifecycle_state").default("locked"),
+  validatedAt: timestamp("validated_at"),
   sourceId: text("source_id"),
   sourceType: text("source_type"),
   isLocked: boolean("is_locked").default(true),
@@ -679,7 +757,12 @@ export const experimentGroups = pgTable("experiment_groups", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   datasetId: text("dataset_id").notNull(),
   groupType: text("group_type").notNull(),
+  strategy: text("strategy").default("epsilon_greedy"),
+  arm: text("arm"),
+  seed: bigint("seed", { mode: "number" }),
+  armStats: jsonb("arm_stats"),
   epsilon: real("epsilon").default(0.15),
+  mutationBounds: jsonb("mutation_bounds"),
   mutationParameters: jsonb("mutation_parameters"),
   originalFeatures: jsonb("original_features"),
   mutatedFeatures: jsonb("mutated_features"),
@@ -687,7 +770,9 @@ export const experimentGroups = pgTable("experiment_groups", {
   actualValue: real("actual_value"),
   sourceId: text("source_id"),
   sourceType: text("source_type"),
+  snapshotId: text("snapshot_id"),
   outcome: text("outcome"),
+  validatedAt: timestamp("validated_at"),
   createdAt: timestamp("created_at").default(sql`now()`),
 });
 
@@ -737,3 +822,21 @@ export const crossLayerPatterns = pgTable("cross_layer_patterns", {
 export const insertCrossLayerPatternSchema = createInsertSchema(crossLayerPatterns).omit({ id: true, createdAt: true, updatedAt: true });
 export type InsertCrossLayerPattern = z.infer<typeof insertCrossLayerPatternSchema>;
 export type CrossLayerPattern = typeof crossLayerPatterns.$inferSelect;
+
+// ============================================================================
+// AMI Stage Transitions - Stage changes observed per keyword
+// ============================================================================
+
+export const amiStageTransitions = pgTable("ami_stage_transitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  keyword: text("keyword").notNull(),
+  fromStage: text("from_stage"),
+  toStage: text("to_stage").notNull(),
+  ami: real("ami"),
+  confidence: real("confidence"),
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+export const insertAmiStageTransitionSchema = createInsertSchema(amiStageTransitions).omit({ id: true, createdAt: true });
+export type InsertAmiStageTransition = z.infer<typeof insertAmiStageTransitionSchema>;
+export type AmiStageTransition = typeof amiStageTransitions.$inferSelect;
@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    // Some pure modules sit next to queries and import ../db, which requires a
+    // connection string; the pool only connects once a query actually runs.
+    env: {
+      DATABASE_URL: process.env.DATABASE_URL ?? "postgres://localhost/vas_test",
+    },
+  },
+});